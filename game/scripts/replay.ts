@@ -0,0 +1,72 @@
+/**
+ * Headless replay runner
+ *
+ * Rebuilds a run exported from the Ending screen and prints every step.
+ *
+ *   npm run replay -- path/to/hatchery-replay-123.json [--step N]
+ *
+ * With --step, prints the full state after step N instead of the summary.
+ */
+
+import fs from 'fs';
+import { parseReplay, replayStates, describeAction } from '../src/engine/replay';
+import { CONTENT_VERSION } from '../src/content/loadContent';
+import type { RunState } from '../src/engine/state';
+import { getCouncilSeats } from '../src/engine/council';
+
+// ============================================
+// ARGUMENTS
+// ============================================
+
+const args = process.argv.slice(2);
+const filePath = args.find(a => !a.startsWith('--'));
+const stepIndex = args.indexOf('--step');
+const step = stepIndex >= 0 ? Number(args[stepIndex + 1]) : null;
+
+if (!filePath) {
+    console.error('Usage: npm run replay -- <replay.json> [--step N]');
+    process.exit(1);
+}
+
+// ============================================
+// PLAYBACK
+// ============================================
+
+const replay = parseReplay(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+
+const states = replayStates(replay);
+
+function summarize(state: RunState): string {
+    const r = state.resources;
+    return `cycle ${state.cycle} ${state.phase.padEnd(8)} ` +
+        `PW ${r.paperwork} PT ${r.patronage} LG ${r.legitimacy} AR ${r.auditRisk} SH ${r.streetHeat} ` +
+        `unions ${Object.keys(state.unions).length} feds ${Object.keys(state.federations).length}`;
+}
+
+console.log(`Replay: seed ${replay.seed}, content ${replay.contentVersion}, ${replay.actions.length} actions`);
+if (replay.contentVersion !== CONTENT_VERSION) {
+    console.log(`Warning: recorded against content ${replay.contentVersion}, this build ships ${CONTENT_VERSION}`);
+}
+
+if (step !== null) {
+    if (!Number.isInteger(step) || step < 0 || step >= states.length) {
+        console.error(`Step must be between 0 and ${states.length - 1}`);
+        process.exit(1);
+    }
+    console.log(`\nState after step ${step}${step > 0 ? ` (${describeAction(replay.actions[step - 1])})` : ''}:`);
+    console.log(JSON.stringify(states[step], null, 2));
+} else {
+    replay.actions.forEach((action, i) => {
+        console.log(`${String(i + 1).padStart(4)}  ${summarize(states[i + 1])}  ${describeAction(action)}`);
+    });
+
+    const final = states[states.length - 1];
+    console.log(`\nEnding: ${final.ending ?? 'none (run unfinished)'}`);
+    if (final.collapse) {
+        console.log(`Collapse: ${final.collapse.cause} in cycle ${final.collapse.cycle} (${final.collapse.trigger.kind})`);
+    }
+    if (final.electionResult) {
+        const { securedDelegates, council } = final.electionResult;
+        console.log(`Election: ${securedDelegates} delegates secured, ${getCouncilSeats(council).player}/${council.majority} council seats (${council.bargained} bargained)`);
+    }
+}
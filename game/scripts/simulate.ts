@@ -3,11 +3,17 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { gameReducer, actions, type GameAction } from '../src/engine/reducer';
-import { createInitialState, type RunState } from '../src/engine/state';
+import { createInitialState, DEFAULT_SETTINGS, type RunState, type RunSettings } from '../src/engine/state';
+import { canPay, type RuleSet } from '../src/engine/rules';
+import type { Scenario } from '../src/engine/scenario';
+import { getElectionsWon, type Campaign } from '../src/engine/campaign';
+import { canBargain, getCouncilSeats } from '../src/engine/council';
 import { createRNG } from '../src/engine/rng';
-import { getEligibleEvents, getEligibleChoices } from '../src/content/loadContent';
+import { getTargetableUnions, needsPlayerPick } from '../src/engine/targets';
+import { selectNextEvent, getEligibleChoices, getRulePreset } from '../src/content/loadContent';
+import { validateRules, validateScenarios, validateCampaigns, resolveCampaign } from '../src/content/schemas';
 // We don't import loadContent because it uses fetch. We'll implement a custom loader.
-import type { EventCard, ContentBundle } from '../src/content/types';
+import type { EventCard, ContentBundle, FlagDefinition, RulePresets } from '../src/content/types';
 
 // ============================================
 // NODE CONTENT LOADER
@@ -23,15 +29,25 @@ function loadJson<T>(relativePath: string): T {
     return JSON.parse(content);
 }
 
-async function loadContentNode(): Promise<ContentBundle> {
+/** Load and validate a rules file (relative to the working directory) */
+function loadRulesFile(filePath: string): RulePresets {
+    return validateRules(JSON.parse(fs.readFileSync(path.resolve(filePath), 'utf-8')));
+}
+
+async function loadContentNode(rulesPath: string | null): Promise<ContentBundle> {
     const events = loadJson<EventCard[]>('content/events.v1.json');
     // We don't strictly need footnotes or nameParts for simulation unless logic depends on them
     // But types might require them if we used the full loadContent bundle.
     // However, our simulator manages its own bundle.
+    const rules = rulesPath ? loadRulesFile(rulesPath) : validateRules(loadJson('content/rules.v1.json'));
     return {
         events,
         footnotes: [], // Mock empty
-        nameParts: { prefixes: [], sectors: [], suffixes: [], modifiers: [] } // Mock empty
+        nameParts: { prefixes: [], sectors: [], suffixes: [], modifiers: [] }, // Mock empty
+        flags: loadJson<FlagDefinition[]>('content/flags.v1.json'),
+        rules,
+        scenarios: validateScenarios(loadJson('content/scenarios.v1.json')),
+        campaigns: validateCampaigns(loadJson('content/campaigns.v1.json'), rules),
     };
 }
 
@@ -65,32 +81,33 @@ class RandomBot implements Bot {
         if (rng < 0.1) return null;
 
         const { resources } = state;
+        const { costs } = state.rules;
         const availableUnions = Object.values(state.unions).filter(u => u.isLicensed && !Object.values(state.federations).some(f => f.unionIds.includes(u.id)));
 
         // Actions
         const actionsList: (() => GameAction)[] = [];
 
-        // Generate Unions (Cost: 1 Paperwork)
-        if (resources.paperwork >= 1) {
+        // Generate Unions
+        if (canPay(resources, costs.generateUnions)) {
             actionsList.push(() => actions.generateUnions(3));
         }
 
-        // License Union (Cost: 1 Paperwork)
+        // License Union
         // Find unlicensed unions
         const unlicensed = Object.values(state.unions).filter(u => !u.isLicensed);
-        if (resources.paperwork >= 1 && unlicensed.length > 0) {
+        if (canPay(resources, costs.license) && unlicensed.length > 0) {
             actionsList.push(() => actions.licenseUnion(unlicensed[0].id)); // Just pick first for simplicity
         }
 
-        // Incubate Union (Cost: 2 Patronage)
+        // Incubate Union
         const incubator = Object.values(state.unions).filter(u => !u.isIncubated);
-        if (resources.patronage >= 2 && incubator.length > 0) {
-            actionsList.push(() => actions.incubateUnion(incubator[0].id));
+        if (canPay(resources, costs.incubate) && incubator.length > 0) {
+            actionsList.push(() => actions.incubateUnion(incubator[0].id, 'discipline'));
         }
 
-        // Create Federation (Cost: 2 Paperwork, 1 Patronage)
+        // Create Federation
         // Need 2+ licensed unions
-        if (resources.paperwork >= 2 && resources.patronage >= 1 && availableUnions.length >= 2) {
+        if (canPay(resources, costs.createFederation) && availableUnions.length >= 2) {
             actionsList.push(() => actions.createFederation([availableUnions[0].id, availableUnions[1].id]));
         }
 
@@ -116,12 +133,12 @@ class ReformBot implements Bot {
 
     act(state: RunState): GameAction | null {
         const { resources } = state;
+        const { costs } = state.rules;
         const availableUnions = Object.values(state.unions).filter(u => u.isLicensed && !Object.values(state.federations).some(f => f.unionIds.includes(u.id)));
         const unlicensed = Object.values(state.unions).filter(u => !u.isLicensed);
 
         // 1. RUSH FIRST FEDERATION (Crucial for Patronage drip)
-        // New Cost: 2 Paperwork, 3 Patronage
-        const canCreateFed = availableUnions.length >= 2 && resources.paperwork >= 2 && resources.patronage >= 3;
+        const canCreateFed = availableUnions.length >= 2 && canPay(resources, costs.createFederation);
 
         if (canCreateFed) {
             return actions.createFederation([availableUnions[0].id, availableUnions[1].id]);
@@ -130,8 +147,7 @@ class ReformBot implements Bot {
         // 2. LICENSE UNIONS (If we can afford and need them for Fed)
         // Prioritize until we have 2 licensed unions for the Fed
         if (availableUnions.length < 2 && unlicensed.length > 0) {
-            // New Cost: 1 Paperwork, 1 Patronage
-            if (resources.paperwork >= 1 && resources.patronage >= 1) {
+            if (canPay(resources, costs.license)) {
                 // Try to pick NON-SHELL unions if possible to avoid Audit Risk, unless desperate
                 // Shells have tag 'compliant'
                 const bestUnion = unlicensed.find(u => !u.tags.includes('compliant')) || unlicensed[0];
@@ -140,9 +156,8 @@ class ReformBot implements Bot {
         }
 
         // 3. GENERATE UNIONS (If empty)
-        // Cost: 1 Paperwork
         // We need raw material.
-        if (Object.keys(state.unions).length < 2 && resources.paperwork >= 1) {
+        if (Object.keys(state.unions).length < 2 && canPay(resources, costs.generateUnions)) {
             return actions.generateUnions(3);
         }
 
@@ -182,18 +197,36 @@ class ReformBot implements Bot {
 
 type SimResult = {
     ending: string | null; // 'capture', 'collapse', etc
+    /** Risk meter that ended the run, if any */
+    collapseCause: string | null;
     cycles: number;
     finalResources: any;
     federationCount: number;
     delegateCount: number;
+    /** Delegates that held firm on Election Night (null if the run never got there) */
+    securedDelegates: number | null;
+    /** Delegates the rival secured on Election Night (null without a rival or an election) */
+    rivalSecured: number | null;
+    /** Council seats held after bargaining, and how many were bargained for (null without an election) */
+    councilSeats: number | null;
+    bargained: number | null;
+    /** Elections won in a campaign (null outside campaigns) */
+    electionsWon: number | null;
 };
 
-async function simulateRun(bot: Bot, content: ContentBundle): Promise<SimResult> {
-    let state = createInitialState(Math.floor(Math.random() * 100000));
+async function simulateRun(
+    bot: Bot,
+    content: ContentBundle,
+    rules: RuleSet,
+    scenario: Scenario | null,
+    campaign: Campaign | null,
+    settings: RunSettings
+): Promise<SimResult> {
+    let state = createInitialState(Math.floor(Math.random() * 100000), false, settings, rules, scenario, campaign);
     state.phase = 'playing'; // Start playing
 
     let steps = 0;
-    const MAX_STEPS = 1000; // Safety break
+    const MAX_STEPS = 1000 * (campaign?.chapters.length ?? 1); // Safety break
 
     while (state.phase !== 'ended' && steps < MAX_STEPS) {
         steps++;
@@ -206,11 +239,8 @@ async function simulateRun(bot: Bot, content: ContentBundle): Promise<SimResult>
                 // End turn logic
 
                 // Draw Event
-                const eligible = getEligibleEvents(content.events, state);
-                if (eligible.length > 0) {
-                    const rng = createRNG(state.rngCursor);
-                    const weights = eligible.map(e => e.weight);
-                    const event = rng.weightedPick(eligible, weights);
+                const event = selectNextEvent(content.events, state, createRNG(state.rngCursor));
+                if (event) {
                     state = gameReducer(state, actions.drawEvent(event.id));
                 } else {
                     // No events? Just advance (shouldn't happen usually)
@@ -226,19 +256,38 @@ async function simulateRun(bot: Bot, content: ContentBundle): Promise<SimResult>
             const choice = event.choices.find(c => c.id === choiceId);
             if (!choice) throw new Error("Choice not found");
 
-            state = gameReducer(state, actions.chooseEvent(event.id, choice.id, choice.effects, choice.unlocks));
+            // Bots hand over their least loyal union when asked to pick one
+            const targetUnionId = needsPlayerPick(choice.targets)
+                ? getTargetableUnions(state).sort((a, b) => a.loyalty - b.loyalty)[0]?.id
+                : undefined;
+
+            state = gameReducer(state, actions.chooseEvent(event.id, choice, targetUnionId));
         }
         else if (state.phase === 'election') {
-            state = gameReducer(state, actions.resolveElection());
+            // Bots buy swing seats only while short of the council
+            if (!state.electionResult?.won && canBargain(state)) {
+                state = gameReducer(state, actions.bargain());
+            } else {
+                state = gameReducer(state, actions.resolveElection());
+            }
+        }
+        else if (state.phase === 'interlude') {
+            state = gameReducer(state, actions.continueCampaign());
         }
     }
 
     return {
         ending: state.ending,
+        collapseCause: state.collapse?.cause ?? null,
         cycles: state.cycle,
         finalResources: state.resources,
         federationCount: Object.keys(state.federations).length,
-        delegateCount: Object.values(state.federations).reduce((sum, f) => sum + (f.recognition === 'recognized' ? f.delegates : 0), 0)
+        delegateCount: Object.values(state.federations).reduce((sum, f) => sum + (f.recognition === 'recognized' ? f.delegates : 0), 0),
+        securedDelegates: state.electionResult?.securedDelegates ?? null,
+        rivalSecured: state.electionResult?.rival?.securedDelegates ?? null,
+        councilSeats: state.electionResult ? getCouncilSeats(state.electionResult.council).player : null,
+        bargained: state.electionResult?.council.bargained ?? null,
+        electionsWon: state.campaign ? getElectionsWon(state.campaign) : null,
     };
 }
 
@@ -248,10 +297,65 @@ async function simulateRun(bot: Bot, content: ContentBundle): Promise<SimResult>
 
 const ITERATIONS = 100;
 
+/** Value of `--<name> <value>`, or null when the flag is omitted */
+function readOption(args: string[], name: string): string | null {
+    const index = args.indexOf(`--${name}`);
+    if (index === -1) return null;
+    const value = args[index + 1];
+    if (value === undefined) {
+        throw new Error(`--${name} needs a value`);
+    }
+    return value;
+}
+
+/** Rule set from `--preset <id>` (the rules file's default when omitted) */
+function parsePreset(args: string[], rules: RulePresets): RuleSet {
+    const id = readOption(args, 'preset');
+    if (id !== null && !rules.presets.some(preset => preset.id === id)) {
+        throw new Error(`Unknown preset "${id}". Expected one of: ${rules.presets.map(p => p.id).join(', ')}`);
+    }
+    return getRulePreset(rules, id);
+}
+
+/** Scenario from `--scenario <id>` (the standard deck when omitted) */
+function parseScenario(args: string[], scenarios: Scenario[]): Scenario | null {
+    const id = readOption(args, 'scenario');
+    if (id === null) return null;
+
+    const scenario = scenarios.find(s => s.id === id);
+    if (!scenario) {
+        throw new Error(`Unknown scenario "${id}". Expected one of: ${scenarios.map(s => s.id).join(', ')}`);
+    }
+    return scenario;
+}
+
+/** Campaign from `--campaign <id>`, resolved against the rule set (a single election when omitted) */
+function parseCampaign(args: string[], content: ContentBundle, rules: RuleSet): Campaign | null {
+    const id = readOption(args, 'campaign');
+    if (id === null) return null;
+
+    const campaign = content.campaigns.find(c => c.id === id);
+    if (!campaign) {
+        throw new Error(`Unknown campaign "${id}". Expected one of: ${content.campaigns.map(c => c.id).join(', ')}`);
+    }
+    return resolveCampaign(campaign, rules);
+}
+
 async function run() {
+    const args = process.argv.slice(2);
+    const rulesPath = readOption(args, 'rules');
     console.log("Loading content...");
-    const content = await loadContentNode();
+    const content = await loadContentNode(rulesPath);
     console.log(`Loaded ${content.events.length} events.`);
+    const rules = parsePreset(args, content.rules);
+    console.log(`Rules: ${rules.label} (${rulesPath ?? 'rules.v1.json'})`);
+    const scenario = parseScenario(args, content.scenarios);
+    console.log(`Scenario: ${scenario?.name ?? 'Standard deck'}`);
+    const campaign = parseCampaign(args, content, rules);
+    console.log(`Campaign: ${campaign ? `${campaign.name} (${campaign.chapters.length} elections)` : 'Single election'}`);
+
+    const settings: RunSettings = { ...DEFAULT_SETTINGS, rival: args.includes('--rival') };
+    console.log(`Rival: ${settings.rival ? 'yes' : 'no'}`);
 
     const bots = [new RandomBot(), new ReformBot()];
 
@@ -260,20 +364,44 @@ async function run() {
 
         const results: SimResult[] = [];
         for (let i = 0; i < ITERATIONS; i++) {
-            results.push(await simulateRun(bot, content));
+            results.push(await simulateRun(bot, content, rules, scenario, campaign, settings));
         }
 
         const wins = results.filter(r => r.ending === 'capture').length;
         const losses = results.filter(r => r.ending === 'collapse').length; // or other loss types
+        const partials = results.filter(r => r.ending === 'partial').length;
         const winRate = (wins / ITERATIONS) * 100;
 
         const avgCycles = results.reduce((sum, r) => sum + r.cycles, 0) / ITERATIONS;
         const avgDelegates = results.reduce((sum, r) => sum + r.delegateCount, 0) / ITERATIONS;
+        const elections = results.filter(r => r.securedDelegates !== null);
+        const avgSecured = elections.length > 0
+            ? elections.reduce((sum, r) => sum + (r.securedDelegates ?? 0), 0) / elections.length
+            : 0;
 
         console.log(`RESULTS for ${bot.name}:`);
         console.log(`Win Rate: ${winRate.toFixed(1)}% (${wins} wins, ${losses} losses)`);
+        if (campaign) {
+            const avgWon = results.reduce((sum, r) => sum + (r.electionsWon ?? 0), 0) / ITERATIONS;
+            console.log(`  Partial captures: ${partials}`);
+            console.log(`  Avg Elections Won: ${avgWon.toFixed(1)} of ${campaign.chapters.length}`);
+        }
+        for (const cause of ['legitimacy', 'audit', 'street']) {
+            const count = results.filter(r => r.collapseCause === cause).length;
+            if (count > 0) console.log(`  Collapsed (${cause}): ${count}`);
+        }
         console.log(`Avg Cycles: ${avgCycles.toFixed(1)}`);
         console.log(`Avg Delegates: ${avgDelegates.toFixed(1)}`);
+        console.log(`Avg Secured on Election Night: ${avgSecured.toFixed(1)} (${elections.length} elections)`);
+        if (elections.length > 0) {
+            const avgSeats = elections.reduce((sum, r) => sum + (r.councilSeats ?? 0), 0) / elections.length;
+            const avgBargained = elections.reduce((sum, r) => sum + (r.bargained ?? 0), 0) / elections.length;
+            console.log(`Avg Council Seats: ${avgSeats.toFixed(1)} (${avgBargained.toFixed(1)} bargained)`);
+        }
+        if (settings.rival && elections.length > 0) {
+            const avgRival = elections.reduce((sum, r) => sum + (r.rivalSecured ?? 0), 0) / elections.length;
+            console.log(`Avg Rival Secured: ${avgRival.toFixed(1)}`);
+        }
     }
 }
 
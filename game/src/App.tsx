@@ -8,11 +8,18 @@ import { GameProvider, useGame } from './app/GameProvider';
 import { StartMenu } from './ui/screens/StartMenu';
 import { Dashboard } from './ui/screens/Dashboard';
 import { ElectionNight } from './ui/screens/ElectionNight';
+import { CampaignInterlude } from './ui/screens/CampaignInterlude';
 import { EndingScreen } from './ui/screens/EndingScreen';
+import { ReplayViewer } from './ui/screens/ReplayViewer';
 import './App.css';
 
 function GameRouter() {
-  const { state } = useGame();
+  const { state, replay } = useGame();
+
+  // An open replay takes over the screen until it is closed
+  if (replay) {
+    return <ReplayViewer />;
+  }
 
   console.log('[GameRouter] Current phase:', state.phase);
   console.log('[GameRouter] Rendering screen for phase:', state.phase);
@@ -28,6 +35,9 @@ function GameRouter() {
     case 'election':
       console.log('[GameRouter] Rendering ElectionNight');
       return <ElectionNight />;
+    case 'interlude':
+      console.log('[GameRouter] Rendering CampaignInterlude');
+      return <CampaignInterlude />;
     case 'ended':
       console.log('[GameRouter] Rendering EndingScreen');
       return <EndingScreen />;
@@ -4,13 +4,23 @@
  * Wraps the game reducer and provides state + dispatch to all components
  */
 
-import React, { createContext, useContext, useReducer, useCallback, useEffect, useState } from 'react';
-import type { RunState } from '../engine/state';
-import { createInitialState } from '../engine/state';
-import { gameReducer, actions, type GameAction } from '../engine/reducer';
+import React, { createContext, useContext, useReducer, useCallback, useEffect, useRef, useState } from 'react';
+import type { RunState, RunSettings, StatusTag } from '../engine/state';
+import { createInitialState, createRandomSeed } from '../engine/state';
+import { actions, type GameAction } from '../engine/reducer';
 import type { ContentBundle, EventCard } from '../content/types';
-import { loadContent, getEligibleEvents } from '../content/loadContent';
+import { loadContent, selectNextEvent, getRulePreset, CONTENT_VERSION } from '../content/loadContent';
 import { createRNG } from '../engine/rng';
+import { createReplay, type ReplayFile } from '../engine/replay';
+import { createUndoState, undoableReducer, canUndo as canUndoHistory, type UndoAction } from '../engine/undo';
+import { loadSave, saveRun, createSave } from '../persistence/storage';
+import { listSlots, writeSlot, deleteSlot, type SaveSlot } from '../persistence/slots';
+import { loadDailyHistory, startDailyAttempt, recordDailyResult } from '../persistence/daily';
+import type { SaveFile, DailyHistory } from '../persistence/schemas';
+import { getDailyDate, getDailySeed, getDailySettings } from '../engine/daily';
+import type { RuleSet } from '../engine/rules';
+import type { Scenario } from '../engine/scenario';
+import type { Campaign } from '../engine/campaign';
 
 // ============================================
 // CONTEXT TYPES
@@ -23,9 +33,29 @@ type GameContextValue = {
     isLoading: boolean;
     error: string | null;
     activeExplainer: string | null;
+    /** Replay open in the viewer (null when playing) */
+    replay: ReplayFile | null;
+
+    /** Whether the last action can be undone */
+    canUndo: boolean;
+    /** Run in progress found in storage on load (null if none) */
+    savedRun: RunState | null;
+    /** Shown when a save could not be loaded and was reset */
+    saveWarning: string | null;
+    /** Named save slots, most recent first */
+    saveSlots: SaveSlot[];
+    /** Daily Dispatch attempts by UTC date */
+    dailyHistory: DailyHistory;
 
     // Convenience actions
-    startGame: (seed?: number, showTips?: boolean) => void;
+    startGame: (seed?: number, showTips?: boolean, settings?: RunSettings, rules?: RuleSet, scenario?: Scenario | null, campaign?: Campaign | null) => void;
+    continueGame: () => void;
+    startDaily: () => void;
+    saveToSlot: (name: string) => void;
+    loadSlot: (name: string) => void;
+    deleteSaveSlot: (name: string) => void;
+    importToSlot: (name: string, save: SaveSlot['save']) => void;
+    undo: () => void;
     resetGame: () => void;
     dismissTutorial: () => void;
     showExplainer: (topic: string) => void;
@@ -35,11 +65,26 @@ type GameContextValue = {
     incubateUnion: (unionId: string, mode: 'paperwork' | 'discipline') => void;
     dissolveUnion: (unionId: string) => void;
     reassignUnion: (unionId: string) => void;
+    resolveStatus: (unionId: string, tag: StatusTag) => void;
     createFederation: (unionIds: string[]) => void;
+    applyRecognition: (federationId: string) => void;
+    addToFederation: (federationId: string, unionId: string) => void;
+    expelFromFederation: (federationId: string, unionId: string) => void;
+    dissolveFederation: (federationId: string) => void;
+    mergeFederations: (federationId: string, targetId: string) => void;
+    splitFederation: (federationId: string, unionIds: string[]) => void;
     advanceTurn: () => void;
     drawRandomEvent: () => void;
-    chooseEventOption: (eventId: string, choiceId: string) => void;
+    chooseEventOption: (eventId: string, choiceId: string, targetUnionId?: string) => void;
+    bargainSwingSeat: () => void;
     resolveElection: () => void;
+    continueCampaign: () => void;
+    goPublic: () => void;
+
+    // Replays
+    exportReplay: () => ReplayFile;
+    openReplay: (replay: ReplayFile) => void;
+    closeReplay: () => void;
 };
 
 const GameContext = createContext<GameContextValue | null>(null);
@@ -49,11 +94,37 @@ const GameContext = createContext<GameContextValue | null>(null);
 // ============================================
 
 export function GameProvider({ children }: { children: React.ReactNode }) {
-    const [state, dispatch] = useReducer(gameReducer, createInitialState());
+    const [history, dispatchAction] = useReducer(undoableReducer, createInitialState(), createUndoState);
+    const state = history.present;
+    const canUndo = canUndoHistory(history);
     const [content, setContent] = useState<ContentBundle | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [activeExplainer, setActiveExplainer] = useState<string | null>(null);
+    const [replay, setReplay] = useState<ReplayFile | null>(null);
+
+    // Saved run from a previous session, read once on mount
+    const [initialLoad] = useState(loadSave);
+    const [savedRun, setSavedRun] = useState<RunState | null>(
+        initialLoad.status === 'loaded' ? initialLoad.save.runState : null
+    );
+    const saveWarning = initialLoad.status === 'reset' ? initialLoad.warning : null;
+    const unlocks = useRef<string[]>(initialLoad.status === 'loaded' ? initialLoad.save.unlocks : []);
+    const [saveSlots, setSaveSlots] = useState<SaveSlot[]>(listSlots);
+    const [dailyHistory, setDailyHistory] = useState<DailyHistory>(loadDailyHistory);
+
+    // Every action since RUN_START, for replays
+    const actionLog = useRef<UndoAction[]>([]);
+
+    const dispatch = useCallback((action: UndoAction) => {
+        if (action.type === 'RUN_START' || action.type === 'RUN_RESET') {
+            actionLog.current = [];
+        }
+        if (action.type !== 'RUN_RESET') {
+            actionLog.current.push(action);
+        }
+        dispatchAction(action);
+    }, []);
 
     // Load content on mount
     useEffect(() => {
@@ -76,67 +147,163 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
             });
     }, []);
 
+    // Autosave after every reducer step (the menu has nothing to save)
+    useEffect(() => {
+        if (state.phase === 'menu') return;
+        unlocks.current = saveRun(state, actionLog.current, unlocks.current).unlocks;
+    }, [state]);
+
+    // Score a Daily Dispatch run once it ends (the menu re-reads the history on reset)
+    useEffect(() => {
+        if (state.phase === 'ended' && state.settings.dailyDate) {
+            recordDailyResult(state);
+        }
+    }, [state]);
+
     // ----------------------------------------
     // Convenience Actions
     // ----------------------------------------
 
-    const startGame = useCallback((seed?: number, showTips?: boolean) => {
+    const startGame = useCallback((
+        seed?: number,
+        showTips?: boolean,
+        settings?: RunSettings,
+        rules?: RuleSet,
+        scenario?: Scenario | null,
+        campaign?: Campaign | null
+    ) => {
         console.log('=== [GameProvider] startGame called ===');
         console.log('[GameProvider] Current state phase:', state.phase);
         console.log('[GameProvider] Seed:', seed);
         console.log('[GameProvider] ShowTips:', showTips);
         console.log('[GameProvider] Content loaded:', content !== null);
         console.log('[GameProvider] Dispatching startRun action...');
-        dispatch(actions.startRun(seed, showTips));
+        // Resolve the seed here so the replay records it
+        dispatch(actions.startRun(seed ?? createRandomSeed(), showTips, settings, rules, scenario, campaign));
+        setSavedRun(null);
         console.log('[GameProvider] startRun action dispatched');
-    }, [state.phase, content]);
+    }, [state.phase, content, dispatch]);
+
+    const startDaily = useCallback(() => {
+        if (!content) return;
+        const date = getDailyDate();
+        const seed = getDailySeed(date);
+        const history = startDailyAttempt(date, seed, CONTENT_VERSION);
+        if (!history) return;
+        setDailyHistory(history);
+        // Daily runs always play under the default preset
+        dispatch(actions.startRun(seed, false, getDailySettings(date), getRulePreset(content.rules)));
+        setSavedRun(null);
+    }, [content, dispatch]);
+
+    const restoreSave = useCallback((save: SaveFile) => {
+        if (!save.runState) return;
+        // Pick up the saved action log so the continued run can still be replayed
+        actionLog.current = [...save.actions] as UndoAction[];
+        dispatchAction(actions.restoreRun(save.runState));
+        setSavedRun(null);
+    }, []);
+
+    const continueGame = useCallback(() => {
+        if (initialLoad.status !== 'loaded' || !savedRun) return;
+        restoreSave(initialLoad.save);
+    }, [initialLoad, savedRun, restoreSave]);
+
+    const saveToSlot = useCallback((name: string) => {
+        writeSlot(name, createSave(state, actionLog.current, unlocks.current));
+        setSaveSlots(listSlots());
+    }, [state]);
+
+    const loadSlot = useCallback((name: string) => {
+        const slot = saveSlots.find(s => s.name === name);
+        if (slot) restoreSave(slot.save);
+    }, [saveSlots, restoreSave]);
+
+    const deleteSaveSlot = useCallback((name: string) => {
+        deleteSlot(name);
+        setSaveSlots(listSlots());
+    }, []);
+
+    const importToSlot = useCallback((name: string, save: SaveSlot['save']) => {
+        writeSlot(name, save);
+        setSaveSlots(listSlots());
+    }, []);
+
+    const undo = useCallback(() => {
+        dispatch({ type: 'UNDO' });
+    }, [dispatch]);
 
     const resetGame = useCallback(() => {
         dispatch(actions.resetRun());
-    }, []);
+        setDailyHistory(loadDailyHistory());
+    }, [dispatch]);
 
     const generateUnions = useCallback((count: number) => {
         dispatch(actions.generateUnions(count));
-    }, []);
+    }, [dispatch]);
 
     const licenseUnion = useCallback((unionId: string) => {
         dispatch(actions.licenseUnion(unionId));
-    }, []);
+    }, [dispatch]);
 
     const incubateUnion = useCallback((unionId: string, mode: 'paperwork' | 'discipline') => {
         dispatch(actions.incubateUnion(unionId, mode));
-    }, []);
+    }, [dispatch]);
 
     const dissolveUnion = useCallback((unionId: string) => {
         dispatch(actions.dissolveUnion(unionId));
-    }, []);
+    }, [dispatch]);
 
     const reassignUnion = useCallback((unionId: string) => {
         dispatch(actions.reassignUnion(unionId));
-    }, []);
+    }, [dispatch]);
+
+    const resolveStatus = useCallback((unionId: string, tag: StatusTag) => {
+        dispatch(actions.resolveStatus(unionId, tag));
+    }, [dispatch]);
 
     const createFederation = useCallback((unionIds: string[]) => {
         dispatch(actions.createFederation(unionIds));
-    }, []);
+    }, [dispatch]);
+
+    const applyRecognition = useCallback((federationId: string) => {
+        dispatch(actions.applyRecognition(federationId));
+    }, [dispatch]);
+
+    const addToFederation = useCallback((federationId: string, unionId: string) => {
+        dispatch(actions.addToFederation(federationId, unionId));
+    }, [dispatch]);
+
+    const expelFromFederation = useCallback((federationId: string, unionId: string) => {
+        dispatch(actions.expelFromFederation(federationId, unionId));
+    }, [dispatch]);
+
+    const dissolveFederation = useCallback((federationId: string) => {
+        dispatch(actions.dissolveFederation(federationId));
+    }, [dispatch]);
+
+    const mergeFederations = useCallback((federationId: string, targetId: string) => {
+        dispatch(actions.mergeFederations(federationId, targetId));
+    }, [dispatch]);
+
+    const splitFederation = useCallback((federationId: string, unionIds: string[]) => {
+        dispatch(actions.splitFederation(federationId, unionIds));
+    }, [dispatch]);
 
     const advanceTurn = useCallback(() => {
         dispatch(actions.advanceTurn());
-    }, []);
+    }, [dispatch]);
 
     const drawRandomEvent = useCallback(() => {
         if (!content) return;
 
-        const eligible = getEligibleEvents(content.events, state);
-        if (eligible.length === 0) return;
-
-        const rng = createRNG(state.rngCursor);
-        const weights = eligible.map(e => e.weight);
-        const event = rng.weightedPick(eligible, weights);
+        const event = selectNextEvent(content.events, state, createRNG(state.rngCursor));
+        if (!event) return;
 
         dispatch(actions.drawEvent(event.id));
-    }, [content, state]);
+    }, [content, state, dispatch]);
 
-    const chooseEventOption = useCallback((eventId: string, choiceId: string) => {
+    const chooseEventOption = useCallback((eventId: string, choiceId: string, targetUnionId?: string) => {
         if (!content) return;
 
         const event = content.events.find(e => e.id === eventId);
@@ -145,16 +312,29 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
         const choice = event.choices.find(c => c.id === choiceId);
         if (!choice) return;
 
-        dispatch(actions.chooseEvent(eventId, choiceId, choice.effects, choice.unlocks));
-    }, [content]);
+        dispatch(actions.chooseEvent(eventId, choice, targetUnionId));
+    }, [content, dispatch]);
+
+    const bargainSwingSeat = useCallback(() => {
+        dispatch(actions.bargain());
+    }, [dispatch]);
 
     const resolveElection = useCallback(() => {
         dispatch(actions.resolveElection());
-    }, []);
+    }, [dispatch]);
+
+    const continueCampaign = useCallback(() => {
+        dispatch(actions.continueCampaign());
+    }, [dispatch]);
+
+    const goPublic = useCallback(() => {
+        if (!content) return;
+        dispatch(actions.goPublic(content.footnotes.map(f => f.id)));
+    }, [content, dispatch]);
 
     const dismissTutorial = useCallback(() => {
         dispatch(actions.dismissTutorial());
-    }, []);
+    }, [dispatch]);
 
     const showExplainer = useCallback((topic: string) => {
         setActiveExplainer(topic);
@@ -164,6 +344,18 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
         setActiveExplainer(null);
     }, []);
 
+    const exportReplay = useCallback(() => {
+        return createReplay(state.seed, CONTENT_VERSION, [...actionLog.current]);
+    }, [state.seed]);
+
+    const openReplay = useCallback((file: ReplayFile) => {
+        setReplay(file);
+    }, []);
+
+    const closeReplay = useCallback(() => {
+        setReplay(null);
+    }, []);
+
     // ----------------------------------------
     // Context Value
     // ----------------------------------------
@@ -174,22 +366,48 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
         content,
         isLoading,
         error,
+        canUndo,
+        savedRun,
+        saveWarning,
+        saveSlots,
+        dailyHistory,
         startGame,
+        continueGame,
+        startDaily,
+        saveToSlot,
+        loadSlot,
+        deleteSaveSlot,
+        importToSlot,
+        undo,
         resetGame,
         generateUnions,
         licenseUnion,
         incubateUnion,
         dissolveUnion,
         reassignUnion,
+        resolveStatus,
         createFederation,
+        applyRecognition,
+        addToFederation,
+        expelFromFederation,
+        dissolveFederation,
+        mergeFederations,
+        splitFederation,
         advanceTurn,
         drawRandomEvent,
         chooseEventOption,
+        bargainSwingSeat,
         resolveElection,
+        continueCampaign,
+        goPublic,
         dismissTutorial,
         activeExplainer,
         showExplainer,
         hideExplainer,
+        replay,
+        exportReplay,
+        openReplay,
+        closeReplay,
     };
 
     return (
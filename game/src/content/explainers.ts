@@ -28,6 +28,22 @@ export const EXPLAINER_CONTENT: Record<string, { title: string; description: str
         description: 'Actual worker anger. Using Paperwork mode incubation generates Street Heat as real workers notice activity. If it hits 100%, the office is burned down.'
     },
 
+    'Evidence': {
+        title: '📁 Evidence',
+        description: 'Documents you have quietly kept. High-integrity unions leak one each cycle, transparency choices add more, and every unlocked footnote is part of the record. Gather enough and you can Go Public, ending the run on your own terms.'
+    },
+
+    'Maintenance': {
+        title: '💸 Maintenance',
+        description: 'Every licensed union costs its maintenance in Patronage at the end of each cycle; candidates on the registry cost nothing. Shells are free; authentic unions are not. If you cannot pay, the cheapest unions are paid first and the rest lose loyalty: the most disloyal defect, and the others run double crack risk that cycle. A federation left with fewer than 2 members falls apart.'
+    },
+
+    // Federation Stats
+    'Visibility': {
+        title: '👁️ Visibility',
+        description: 'How closely the Ministry is watching a federation. Shell members and high Audit Risk push it up; quiet cycles let it fade. Above 60%, the federation is reviewed every cycle and may be de-recognized, losing its delegates until you reapply.'
+    },
+
     // Union Stats (now probability-based)
     'Plausibility': {
         title: '📄 Plausibility → License Chance',
@@ -98,5 +114,9 @@ export const EXPLAINER_CONTENT: Record<string, { title: string; description: str
     'RADICAL': {
         title: 'Radical Elements',
         description: 'This union has been infiltrated by actual organizers. Generates double Street Heat.'
+    },
+    'SCANDAL': {
+        title: 'Scandal',
+        description: 'This union is in the papers. Drains Legitimacy and Plausibility every turn until the news cycle moves on.'
     }
 };
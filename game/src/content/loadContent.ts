@@ -2,13 +2,18 @@
  * Content loading utilities
  */
 
-import type { EventCard, ContentBundle } from './types';
-import { validateEvents, validateFootnotes, validateNameParts, runContentSanityChecks } from './schemas';
+import type { EventCard, ContentBundle, RulePresets } from './types';
+import type { RuleSet } from '../engine/rules';
+import { validateEvents, validateFootnotes, validateNameParts, validateFlags, validateRules, validateScenarios, validateCampaigns, runContentSanityChecks } from './schemas';
+import { getBooleanFlag, getCounterFlag } from '../engine/flags';
 
 // ============================================
 // CONTENT LOADING
 // ============================================
 
+/** Version suffix of the content files, recorded in replays */
+export const CONTENT_VERSION = 'v1';
+
 async function loadJson<T>(path: string): Promise<T> {
     const response = await fetch(path);
     if (!response.ok) {
@@ -22,19 +27,28 @@ async function loadJson<T>(path: string): Promise<T> {
  */
 export async function loadContent(): Promise<ContentBundle> {
     const baseUrl = import.meta.env.BASE_URL;
-    const [eventsRaw, footnotesRaw, namePartsRaw] = await Promise.all([
-        loadJson(`${baseUrl}content/events.v1.json`),
-        loadJson(`${baseUrl}content/footnotes.v1.json`),
-        loadJson(`${baseUrl}content/nameParts.v1.json`),
+    const [eventsRaw, footnotesRaw, namePartsRaw, flagsRaw, rulesRaw, scenariosRaw, campaignsRaw] = await Promise.all([
+        loadJson(`${baseUrl}content/events.${CONTENT_VERSION}.json`),
+        loadJson(`${baseUrl}content/footnotes.${CONTENT_VERSION}.json`),
+        loadJson(`${baseUrl}content/nameParts.${CONTENT_VERSION}.json`),
+        loadJson(`${baseUrl}content/flags.${CONTENT_VERSION}.json`),
+        loadJson(`${baseUrl}content/rules.${CONTENT_VERSION}.json`),
+        loadJson(`${baseUrl}content/scenarios.${CONTENT_VERSION}.json`),
+        loadJson(`${baseUrl}content/campaigns.${CONTENT_VERSION}.json`),
     ]);
 
-    // Validate with Zod
-    const events = validateEvents(eventsRaw);
+    // Validate with Zod (flags first: events are checked against the registry,
+    // rules before campaigns: chapters are resolved against every preset)
+    const flags = validateFlags(flagsRaw);
+    const events = validateEvents(eventsRaw, flags);
     const footnotes = validateFootnotes(footnotesRaw);
     const nameParts = validateNameParts(namePartsRaw);
+    const rules = validateRules(rulesRaw);
+    const scenarios = validateScenarios(scenariosRaw);
+    const campaigns = validateCampaigns(campaignsRaw, rules);
 
     // Run sanity checks
-    const errors = runContentSanityChecks(events, footnotes);
+    const errors = runContentSanityChecks(events, footnotes, scenarios, rules);
     if (errors.length > 0) {
         console.error('Content sanity check failures:', errors);
         // Don't throw in dev, but log warnings
@@ -43,7 +57,17 @@ export async function loadContent(): Promise<ContentBundle> {
         }
     }
 
-    return { events, footnotes, nameParts };
+    return { events, footnotes, nameParts, flags, rules, scenarios, campaigns };
+}
+
+// ============================================
+// RULE PRESETS
+// ============================================
+
+/** A preset by ID, or the file's default if there is no such preset */
+export function getRulePreset(rules: RulePresets, id?: string | null): RuleSet {
+    return rules.presets.find(preset => preset.id === id) ??
+        rules.presets.find(preset => preset.id === rules.defaultPreset)!;
 }
 
 // ============================================
@@ -51,6 +75,8 @@ export async function loadContent(): Promise<ContentBundle> {
 // ============================================
 
 import type { RunState } from '../engine/state';
+import type { RNG } from '../engine/rng';
+import { getEventWeight } from '../engine/scenario';
 
 /**
  * Check if event conditions are satisfied
@@ -75,6 +101,36 @@ export function checkConditions(
     if (conditions.cycleMax !== undefined && state.cycle > conditions.cycleMax) return false;
     if (conditions.federationCountMin !== undefined && Object.keys(state.federations).length < conditions.federationCountMin) return false;
     if (conditions.unionCountMin !== undefined && Object.keys(state.unions).length < conditions.unionCountMin) return false;
+    if (conditions.rivalFederationCountMin !== undefined && Object.keys(state.rival?.federations ?? {}).length < conditions.rivalFederationCountMin) return false;
+    if (conditions.sectorUnrestMin) {
+        for (const [sector, min] of Object.entries(conditions.sectorUnrestMin)) {
+            if ((state.sectors[sector]?.unrest ?? 0) < min) return false;
+        }
+    }
+    if (conditions.requires) {
+        const met = conditions.requires.every(req =>
+            state.choiceHistory.some(record =>
+                record.eventId === req.eventId &&
+                (req.choiceId === undefined || record.choiceId === req.choiceId)
+            )
+        );
+        if (!met) return false;
+    }
+    if (conditions.flags) {
+        for (const [id, value] of Object.entries(conditions.flags)) {
+            if (getBooleanFlag(state.flags, id) !== value) return false;
+        }
+    }
+    if (conditions.flagMin) {
+        for (const [id, min] of Object.entries(conditions.flagMin)) {
+            if (getCounterFlag(state.flags, id) < min) return false;
+        }
+    }
+    if (conditions.flagMax) {
+        for (const [id, max] of Object.entries(conditions.flagMax)) {
+            if (getCounterFlag(state.flags, id) > max) return false;
+        }
+    }
 
     return true;
 }
@@ -97,6 +153,12 @@ export function getEligibleEvents(
     state: RunState
 ): EventCard[] {
     return events.filter(event => {
+        // Chain-only events come from the queue, not the deck
+        if (event.chainOnly) return false;
+
+        // The run's scenario can take an event out of the deck
+        if (getEventWeight(event, state.scenario) <= 0) return false;
+
         // Check event conditions
         if (!checkConditions(event.conditions, state)) return false;
 
@@ -109,6 +171,32 @@ export function getEligibleEvents(
     });
 }
 
+/**
+ * Pick the next event to show
+ * Due follow-ups in the queue come first, oldest first, as long as one
+ * of their choices is available; otherwise a weighted draw from the deck
+ * (weights adjusted by the run's scenario).
+ * Returns null if nothing can be drawn.
+ */
+export function selectNextEvent(
+    events: EventCard[],
+    state: RunState,
+    rng: RNG
+): EventCard | null {
+    for (const pending of state.pendingEvents) {
+        if (pending.dueCycle > state.cycle) continue;
+        const event = events.find(e => e.id === pending.eventId);
+        if (event && getEligibleChoices(event, state).length > 0) {
+            return event;
+        }
+    }
+
+    const eligible = getEligibleEvents(events, state);
+    if (eligible.length === 0) return null;
+
+    return rng.weightedPick(eligible, eligible.map(e => getEventWeight(e, state.scenario)));
+}
+
 /**
  * Get eligible choices for an event
  */
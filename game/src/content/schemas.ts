@@ -5,11 +5,43 @@
  */
 
 import { z } from 'zod';
+import type { RuleSet } from '../engine/rules';
+import { NAME_PARTS } from '../engine/nameParts';
+import { getEventWeight, type Scenario } from '../engine/scenario';
+import type { Campaign } from '../engine/campaign';
+import type { CampaignDefinition, RulePresets } from './types';
+
+// ============================================
+// FLAG SCHEMAS
+// ============================================
+
+export const FlagIdSchema = z.string().regex(/^[a-z][a-z0-9_]*$/, 'Flag IDs are snake_case');
+
+export const FlagDefinitionSchema = z.object({
+    id: FlagIdSchema,
+    type: z.enum(['boolean', 'counter']),
+    description: z.string().min(1),
+}).strict();
+
+export const FlagsFileSchema = z.array(FlagDefinitionSchema).refine(
+    flags => new Set(flags.map(f => f.id)).size === flags.length,
+    'Duplicate flag ID'
+);
 
 // ============================================
 // EVENT SCHEMAS
 // ============================================
 
+export const EventRequirementSchema = z.object({
+    eventId: z.string().min(1),
+    choiceId: z.string().min(1).optional(),
+}).strict();
+
+export const ScheduledEventSchema = z.object({
+    eventId: z.string().min(1),
+    delay: z.number().int().positive(),
+}).strict();
+
 export const EventConditionsSchema = z.object({
     patronageMin: z.number().optional(),
     patronageMax: z.number().optional(),
@@ -23,6 +55,12 @@ export const EventConditionsSchema = z.object({
     cycleMax: z.number().optional(),
     federationCountMin: z.number().optional(),
     unionCountMin: z.number().optional(),
+    rivalFederationCountMin: z.number().optional(),
+    sectorUnrestMin: z.record(z.string().min(1), z.number()).optional(),
+    requires: z.array(EventRequirementSchema).optional(),
+    flags: z.record(FlagIdSchema, z.boolean()).optional(),
+    flagMin: z.record(FlagIdSchema, z.number().int()).optional(),
+    flagMax: z.record(FlagIdSchema, z.number().int()).optional(),
 }).strict();
 
 export const EventEffectsSchema = z.object({
@@ -33,12 +71,66 @@ export const EventEffectsSchema = z.object({
     streetHeat: z.number().optional(),
 }).strict();
 
+export const StatusTagSchema = z.enum(['COMPLAINT', 'RADICAL', 'SCANDAL']);
+
+export const TargetSelectorSchema = z.discriminatedUnion('by', [
+    z.object({ by: z.literal('sector'), sector: z.string().min(1) }).strict(),
+    z.object({ by: z.literal('tag'), tag: z.string().min(1) }).strict(),
+    z.object({ by: z.literal('archetype'), archetype: z.string().min(1) }).strict(),
+    z.object({ by: z.literal('federationMember') }).strict(),
+    z.object({ by: z.literal('playerPick') }).strict(),
+]);
+
+export const UnionStatEffectsSchema = z.object({
+    plausibility: z.number().optional(),
+    loyalty: z.number().optional(),
+    integrity: z.number().optional(),
+}).strict();
+
+export const TargetedEffectSchema = z.object({
+    target: TargetSelectorSchema,
+    stats: UnionStatEffectsSchema.optional(),
+    crack: z.boolean().optional(),
+    addTags: z.array(z.string().min(1)).optional(),
+    removeTags: z.array(z.string().min(1)).optional(),
+    statuses: z.array(StatusTagSchema).optional(),
+    visibility: z.number().int().optional(),
+}).strict();
+
+export const DelegateEffectsSchema = z.object({
+    bonus: z.number().int().optional(),
+    cancelFederation: z.boolean().optional(),
+    threshold: z.number().int().optional(),
+}).strict();
+
+export const RivalEffectsSchema = z.object({
+    sabotage: z.boolean().optional(),
+    poach: z.boolean().optional(),
+}).strict();
+
+export const SectorEffectsSchema = z.object({
+    workforce: z.number().int().optional(),
+    unrest: z.number().int().optional(),
+    employerStrength: z.number().int().optional(),
+    health: z.number().int().optional(),
+}).strict();
+
 export const EventChoiceSchema = z.object({
     id: z.string().min(1),
     label: z.string().min(1),
     conditions: EventConditionsSchema.optional(),
     effects: EventEffectsSchema,
     unlocks: z.array(z.string()).optional(),
+    evidence: z.number().int().positive().optional(),
+    visibility: z.number().int().optional(),
+    statuses: z.array(StatusTagSchema).optional(),
+    targets: z.array(TargetedEffectSchema).optional(),
+    schedules: z.array(ScheduledEventSchema).optional(),
+    delegates: DelegateEffectsSchema.optional(),
+    rival: RivalEffectsSchema.optional(),
+    sectors: z.record(z.string().min(1), SectorEffectsSchema).optional(),
+    setFlags: z.record(FlagIdSchema, z.boolean()).optional(),
+    incrementFlags: z.record(FlagIdSchema, z.number().int()).optional(),
     outcome: z.string().optional(),
 }).strict();
 
@@ -50,11 +142,53 @@ export const EventCardSchema = z.object({
     image: z.string().optional(),
     weight: z.number().positive(),
     conditions: EventConditionsSchema.optional(),
+    chainOnly: z.boolean().optional(),
     choices: z.array(EventChoiceSchema).min(2).max(3),
 }).strict();
 
 export const EventsFileSchema = z.array(EventCardSchema);
 
+/**
+ * Events schema that also checks every flag reference against the registry
+ * Boolean flags may only be set and tested as booleans, counters as counters.
+ */
+export function createEventsFileSchema(flags: z.infer<typeof FlagsFileSchema>) {
+    const flagTypes = new Map(flags.map(f => [f.id, f.type]));
+
+    return EventsFileSchema.superRefine((events, ctx) => {
+        const checkFlags = (
+            record: Record<string, unknown> | undefined,
+            expected: 'boolean' | 'counter',
+            path: (string | number)[]
+        ) => {
+            for (const id of Object.keys(record ?? {})) {
+                const type = flagTypes.get(id);
+                if (type === expected) continue;
+                ctx.addIssue({
+                    code: 'custom',
+                    message: type ? `Flag ${id} is a ${type}, not a ${expected}` : `Unknown flag: ${id}`,
+                    path: [...path, id],
+                });
+            }
+        };
+
+        const checkConditions = (conditions: z.infer<typeof EventConditionsSchema> | undefined, path: (string | number)[]) => {
+            checkFlags(conditions?.flags, 'boolean', [...path, 'flags']);
+            checkFlags(conditions?.flagMin, 'counter', [...path, 'flagMin']);
+            checkFlags(conditions?.flagMax, 'counter', [...path, 'flagMax']);
+        };
+
+        events.forEach((event, i) => {
+            checkConditions(event.conditions, [i, 'conditions']);
+            event.choices.forEach((choice, j) => {
+                checkConditions(choice.conditions, [i, 'choices', j, 'conditions']);
+                checkFlags(choice.setFlags, 'boolean', [i, 'choices', j, 'setFlags']);
+                checkFlags(choice.incrementFlags, 'counter', [i, 'choices', j, 'incrementFlags']);
+            });
+        });
+    });
+}
+
 // ============================================
 // FOOTNOTE SCHEMAS
 // ============================================
@@ -82,12 +216,320 @@ export const NamePartsSchema = z.object({
     modifiers: z.array(z.string()),
 }).strict();
 
+// ============================================
+// SCENARIO SCHEMAS
+// ============================================
+
+const MultiplierSchema = z.number().nonnegative();
+
+export const ScenarioSchema: z.ZodType<Scenario> = z.object({
+    id: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Scenario IDs are snake_case'),
+    name: z.string().min(1),
+    era: z.string().min(1),
+    date: z.string().min(1),
+    description: z.string().min(1),
+    openingText: z.string().min(1),
+    startingResources: z.object({
+        paperwork: z.number().int().nonnegative().optional(),
+        patronage: z.number().int().nonnegative().optional(),
+        legitimacy: z.number().int().nonnegative().optional(),
+        auditRisk: z.number().int().nonnegative().optional(),
+        streetHeat: z.number().int().nonnegative().optional(),
+    }).strict().default({}),
+    maxCycles: z.number().int().positive().optional(),
+    deckWeights: z.object({
+        categories: z.partialRecord(EventCardSchema.shape.category, MultiplierSchema).default({}),
+        events: z.record(z.string(), MultiplierSchema).default({}),
+    }).strict().default({ categories: {}, events: {} }),
+    nameParts: z.object({
+        prefixes: z.array(z.string().min(1)).default([]),
+        sectors: z.array(z.string().min(1)).default([]),
+        suffixes: z.array(z.string().min(1)).default([]),
+        modifiers: z.array(z.string()).default([]),
+    }).strict().default({ prefixes: [], sectors: [], suffixes: [], modifiers: [] }),
+}).strict();
+
+export const ScenariosFileSchema = z.array(ScenarioSchema);
+
+// ============================================
+// RULE SCHEMAS
+// ============================================
+
+const RuleResourcesSchema = z.object({
+    paperwork: z.number().int().nonnegative(),
+    patronage: z.number().int().nonnegative(),
+    legitimacy: z.number().int().nonnegative(),
+    auditRisk: z.number().int().nonnegative(),
+    streetHeat: z.number().int().nonnegative(),
+}).strict();
+
+export const ActionCostSchema = z.object({
+    paperwork: z.number().int().nonnegative(),
+    patronage: z.number().int().nonnegative(),
+}).strict();
+
+const StatRangeSchema = z.tuple([z.number().int(), z.number().int()]).refine(
+    ([min, max]) => min <= max,
+    'Range minimum must not exceed its maximum'
+);
+
+const UnionStatRangeSchema = StatRangeSchema.refine(
+    ([min, max]) => min >= 0 && max <= 100,
+    'Union stats range from 0 to 100'
+);
+
+const IncubationModeSchema = z.object({
+    plausibility: z.number().int(),
+    loyalty: z.number().int(),
+    integrity: z.number().int(),
+    streetHeat: z.number().int().nonnegative(),
+}).strict();
+
+const StatusBalanceSchema = z.object({
+    duration: z.number().int().positive().nullable(),
+    maxStacks: z.number().int().positive(),
+    perCycle: EventEffectsSchema,
+    unionPerCycle: UnionStatEffectsSchema.optional(),
+    streetHeatMultiplier: z.number().nonnegative().optional(),
+    resolve: EventEffectsSchema.optional(),
+}).strict();
+
+const UnionArchetypeSchema = z.object({
+    id: z.string().min(1),
+    weight: z.number().positive(),
+    plausibility: UnionStatRangeSchema,
+    loyalty: UnionStatRangeSchema,
+    integrity: UnionStatRangeSchema,
+    maintenanceCost: StatRangeSchema.refine(([min]) => min >= 0, 'Maintenance cannot be negative'),
+    tags: z.array(z.string().min(1)),
+}).strict();
+
+/** One sector's economy; saves reuse it for the run's sectors */
+export const SectorStateSchema = z.object({
+    workforce: z.number().int().nonnegative(),
+    unrest: z.number().int().min(0).max(100),
+    employerStrength: z.number().int().min(0).max(100),
+    health: z.number().int().min(0).max(100),
+}).strict();
+
+export const RuleSetSchema: z.ZodType<RuleSet> = z.object({
+    id: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Rule preset IDs are snake_case'),
+    label: z.string().min(1),
+    description: z.string(),
+    startingResources: RuleResourcesSchema,
+    resourceCaps: RuleResourcesSchema,
+    costs: z.object({
+        license: ActionCostSchema,
+        incubate: ActionCostSchema,
+        generateUnions: ActionCostSchema,
+        createFederation: ActionCostSchema,
+        applyRecognition: ActionCostSchema,
+        addToFederation: ActionCostSchema,
+        expelFromFederation: ActionCostSchema,
+        dissolveFederation: ActionCostSchema,
+        mergeFederations: ActionCostSchema,
+        splitFederation: ActionCostSchema,
+    }).strict(),
+    upkeep: z.object({
+        paperworkRefresh: z.number().int().nonnegative(),
+        basePatronageIncome: z.number().int(),
+        unionsPerAuditRisk: z.number().int().positive(),
+        streetHeatCooling: z.number().int().nonnegative(),
+        shellAllowance: z.number().int().nonnegative(),
+        unpaidLoyaltyLoss: z.number().int().nonnegative(),
+        defectionLoyalty: z.number().int().nonnegative(),
+        defectionLegitimacyLoss: z.number().int().nonnegative(),
+        crackLegitimacyLoss: z.number().int().nonnegative(),
+        crackAuditRisk: z.number().int().nonnegative(),
+    }).strict(),
+    federation: z.object({
+        createAuditRisk: z.number().int().nonnegative(),
+        addAuditRisk: z.number().int().nonnegative(),
+        expelLegitimacyLoss: z.number().int().nonnegative(),
+        expelAuditRisk: z.number().int().nonnegative(),
+        dissolveLegitimacyLoss: z.number().int().nonnegative(),
+        dissolveAuditRisk: z.number().int().nonnegative(),
+        mergeAuditRisk: z.number().int().nonnegative(),
+        splitVisibility: z.number().int().nonnegative(),
+        splitAuditRisk: z.number().int().nonnegative(),
+    }).strict(),
+    recognition: z.object({
+        baseVisibility: z.number().int().min(0).max(100),
+        shellVisibility: z.number().int().nonnegative(),
+        reviewVisibility: z.number().int().min(0).max(100),
+        derecognitionLegitimacyLoss: z.number().int().nonnegative(),
+        shellDrift: z.number().int().nonnegative(),
+        auditRiskPerDrift: z.number().int().positive(),
+        quietFade: z.number().int().nonnegative(),
+        grantedVisibility: z.number().int().nonnegative(),
+        rejectedVisibility: z.number().int().nonnegative(),
+        rejectedAuditRisk: z.number().int().nonnegative(),
+    }).strict(),
+    evidence: z.object({
+        required: z.number().int().positive(),
+        leakIntegrityMin: z.number().int().min(0).max(100),
+        perFootnote: z.number().int().nonnegative(),
+    }).strict(),
+    formulas: z.object({
+        license: z.object({
+            base: z.number(),
+            perPlausibility: z.number(),
+            max: z.number().max(100),
+            failAuditRisk: z.number().int().nonnegative(),
+        }).strict(),
+        crack: z.object({
+            base: z.number(),
+            perIntegrity: z.number(),
+            min: z.number().min(0),
+            strainedMultiplier: z.number().min(1),
+        }).strict(),
+        derecognition: z.object({
+            offset: z.number().int(),
+            auditRiskStep: z.number().int().positive(),
+            max: z.number().int().min(0).max(100),
+        }).strict(),
+        recognition: z.object({
+            base: z.number().int(),
+            min: z.number().int().min(0).max(100),
+            max: z.number().int().min(0).max(100),
+        }).strict(),
+        dissolveReward: z.object({ base: z.number().int(), step: z.number().int().positive() }).strict(),
+        reassignReward: z.object({ base: z.number().int(), step: z.number().int().positive() }).strict(),
+    }).strict(),
+    incubation: z.object({
+        paperwork: IncubationModeSchema,
+        discipline: IncubationModeSchema,
+        complaintIntegrityMin: z.number().int(),
+    }).strict(),
+    statuses: z.record(StatusTagSchema, StatusBalanceSchema),
+    archetypes: z.array(UnionArchetypeSchema).min(1).refine(
+        archetypes => new Set(archetypes.map(a => a.id)).size === archetypes.length,
+        'Archetype IDs must be unique'
+    ),
+    rival: z.object({
+        unionsPerCycle: z.number().int().nonnegative(),
+        federationSize: z.number().int().min(2),
+        streetHeatSurge: z.number().int().nonnegative(),
+        surgeUnions: z.number().int().nonnegative(),
+        auditRiskSurge: z.number().int().nonnegative(),
+        recognitionBonus: z.number().int(),
+    }).strict(),
+    council: z.object({
+        seats: z.number().int().positive(),
+        sectorSeats: z.record(z.string().min(1), z.number().int().positive()),
+        independentSeats: z.number().int().nonnegative(),
+        swingCost: z.number().int().nonnegative(),
+        swingCostStep: z.number().int().nonnegative(),
+    }).strict(),
+    economy: z.object({
+        start: SectorStateSchema,
+        sectorStart: z.record(z.string().min(1), SectorStateSchema.partial()),
+        healthBaseline: z.number().int().min(0).max(100),
+        healthRecovery: z.number().int().nonnegative(),
+        unrestPerDistress: z.number().nonnegative(),
+        unrestCooling: z.number().int().nonnegative(),
+        crackPerUnrest: z.number().nonnegative(),
+        employerPressure: z.number().int().min(0).max(100),
+        employerLoyaltyLoss: z.number().int().nonnegative(),
+        workforcePerShell: z.number().int().positive(),
+        concentrationUnrest: z.number().int().nonnegative(),
+        concentrationVisibility: z.number().int().nonnegative(),
+    }).strict(),
+    maxCycles: z.number().int().positive(),
+}).strict().superRefine((rules, ctx) => {
+    for (const key of Object.keys(rules.startingResources) as (keyof RuleSet['startingResources'])[]) {
+        if (rules.startingResources[key] > rules.resourceCaps[key]) {
+            ctx.addIssue({
+                code: 'custom',
+                path: ['startingResources', key],
+                message: `Starting ${key} exceeds its cap of ${rules.resourceCaps[key]}`,
+            });
+        }
+    }
+    // The risk meters are percentages: the lose conditions and the UI assume 0-100
+    for (const key of ['legitimacy', 'auditRisk', 'streetHeat'] as const) {
+        if (rules.resourceCaps[key] !== 100) {
+            ctx.addIssue({
+                code: 'custom',
+                path: ['resourceCaps', key],
+                message: `The ${key} cap must be 100 (risk meters run from 0 to 100)`,
+            });
+        }
+    }
+    const reserved = Object.values(rules.council.sectorSeats).reduce((sum, count) => sum + count, 0);
+    if (reserved + rules.council.independentSeats > rules.council.seats) {
+        ctx.addIssue({
+            code: 'custom',
+            path: ['council'],
+            message: `Sector and independent seats exceed the council's ${rules.council.seats} seats`,
+        });
+    }
+});
+
+/**
+ * The presets file before `extends` is resolved
+ * A preset may name an earlier preset to extend and list only what it changes.
+ */
+const RulesFileSchema = z.object({
+    defaultPreset: z.string().min(1),
+    presets: z.array(z.looseObject({
+        id: z.string().min(1),
+        extends: z.string().optional(),
+    })).min(1),
+}).strict();
+
+type RawRules = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is RawRules {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Deep merge a preset over the one it extends (arrays are replaced, not merged) */
+function mergeRules(base: RawRules, override: RawRules): RawRules {
+    const merged: RawRules = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        merged[key] = isPlainObject(value) && isPlainObject(base[key])
+            ? mergeRules(base[key], value)
+            : value;
+    }
+    return merged;
+}
+
+// ============================================
+// CAMPAIGN SCHEMAS
+// ============================================
+
+const ChapterDefinitionSchema = z.object({
+    id: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Chapter IDs are snake_case'),
+    title: z.string().min(1),
+    briefing: z.string().min(1),
+    seatIncrease: z.number().int().nonnegative(),
+    cycles: z.number().int().positive().optional(),
+    ruleChanges: z.record(z.string(), z.unknown()).default({}),
+    ruleNotes: z.array(z.string().min(1)).default([]),
+}).strict();
+
+export const CampaignDefinitionSchema = z.object({
+    id: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Campaign IDs are snake_case'),
+    name: z.string().min(1),
+    description: z.string().min(1),
+    chapters: z.array(ChapterDefinitionSchema).min(2, 'A campaign needs at least two elections').refine(
+        chapters => new Set(chapters.map(c => c.id)).size === chapters.length,
+        'Chapter IDs must be unique'
+    ),
+}).strict();
+
+export const CampaignsFileSchema = z.array(CampaignDefinitionSchema).refine(
+    campaigns => new Set(campaigns.map(c => c.id)).size === campaigns.length,
+    'Campaign IDs must be unique'
+);
+
 // ============================================
 // VALIDATION HELPERS
 // ============================================
 
-export function validateEvents(data: unknown) {
-    return EventsFileSchema.parse(data);
+export function validateEvents(data: unknown, flags: z.infer<typeof FlagsFileSchema>) {
+    return createEventsFileSchema(flags).parse(data);
 }
 
 export function validateFootnotes(data: unknown) {
@@ -98,12 +540,104 @@ export function validateNameParts(data: unknown) {
     return NamePartsSchema.parse(data);
 }
 
+export function validateFlags(data: unknown) {
+    return FlagsFileSchema.parse(data);
+}
+
+export function validateScenarios(data: unknown) {
+    return ScenariosFileSchema.parse(data);
+}
+
+/**
+ * Resolve a campaign's chapters against a rule preset
+ * Each chapter's changes land on top of the previous chapter's rules, and
+ * the council grows by the chapter's extra seats. Throws naming
+ * the first chapter whose rules do not validate.
+ */
+export function resolveCampaign(definition: CampaignDefinition, preset: RuleSet): Campaign {
+    let rules = preset;
+    const chapters = definition.chapters.map(chapter => {
+        const changed = mergeRules(rules as RawRules, chapter.ruleChanges);
+        const result = RuleSetSchema.safeParse({
+            ...changed,
+            id: preset.id,
+            label: preset.label,
+            description: preset.description,
+            council: {
+                ...(changed.council as RawRules),
+                seats: ((changed.council as RawRules).seats as number) + chapter.seatIncrease,
+            },
+            maxCycles: chapter.cycles ?? preset.maxCycles,
+        });
+        if (!result.success) {
+            const issues = result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+            throw new Error(`Invalid rule changes in campaign ${definition.id}, chapter ${chapter.id}: ${issues}`);
+        }
+        rules = result.data;
+        return {
+            id: chapter.id,
+            title: chapter.title,
+            briefing: chapter.briefing,
+            ruleNotes: chapter.ruleNotes,
+            rules,
+        };
+    });
+
+    return { id: definition.id, name: definition.name, description: definition.description, chapters };
+}
+
+/**
+ * Validate the campaigns file
+ * Every campaign must resolve against every rule preset.
+ */
+export function validateCampaigns(data: unknown, rules: RulePresets): CampaignDefinition[] {
+    const campaigns = CampaignsFileSchema.parse(data);
+    for (const campaign of campaigns) {
+        for (const preset of rules.presets) {
+            resolveCampaign(campaign, preset);
+        }
+    }
+    return campaigns;
+}
+
+/**
+ * Validate a rules file and resolve each preset's `extends`
+ * Throws naming the first preset that fails.
+ */
+export function validateRules(data: unknown): RulePresets {
+    const file = RulesFileSchema.parse(data);
+    const presets = new Map<string, RuleSet>();
+
+    for (const { extends: parentId, ...raw } of file.presets) {
+        if (presets.has(raw.id)) {
+            throw new Error(`Duplicate rule preset: ${raw.id}`);
+        }
+        const parent = parentId === undefined ? {} : presets.get(parentId);
+        if (!parent) {
+            throw new Error(`Rule preset ${raw.id} extends ${parentId}, which is not defined before it`);
+        }
+        const result = RuleSetSchema.safeParse(mergeRules(parent, raw));
+        if (!result.success) {
+            const issues = result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+            throw new Error(`Invalid rule preset ${raw.id}: ${issues}`);
+        }
+        presets.set(raw.id, result.data);
+    }
+
+    if (!presets.has(file.defaultPreset)) {
+        throw new Error(`Default rule preset ${file.defaultPreset} is not defined`);
+    }
+    return { defaultPreset: file.defaultPreset, presets: [...presets.values()] };
+}
+
 /**
  * Content sanity checks beyond schema validation
  */
 export function runContentSanityChecks(
     events: z.infer<typeof EventsFileSchema>,
-    footnotes: z.infer<typeof FootnotesFileSchema>
+    footnotes: z.infer<typeof FootnotesFileSchema>,
+    scenarios: Scenario[] = [],
+    rules?: RulePresets
 ): string[] {
     const errors: string[] = [];
 
@@ -147,5 +681,98 @@ export function runContentSanityChecks(
         }
     }
 
+    // Check chain links point at real events and choices
+    const eventsById = new Map(events.map(e => [e.id, e]));
+    const scheduledIds = new Set<string>();
+    for (const event of events) {
+        const requirements = [
+            ...(event.conditions?.requires ?? []),
+            ...event.choices.flatMap(c => c.conditions?.requires ?? []),
+        ];
+        for (const requirement of requirements) {
+            const required = eventsById.get(requirement.eventId);
+            if (!required) {
+                errors.push(`Event ${event.id} requires unknown event: ${requirement.eventId}`);
+            } else if (requirement.choiceId && !required.choices.some(c => c.id === requirement.choiceId)) {
+                errors.push(`Event ${event.id} requires unknown choice: ${requirement.eventId}.${requirement.choiceId}`);
+            }
+        }
+
+        for (const choice of event.choices) {
+            for (const scheduled of choice.schedules ?? []) {
+                scheduledIds.add(scheduled.eventId);
+                if (!eventsById.has(scheduled.eventId)) {
+                    errors.push(`Event ${event.id} choice ${choice.id} schedules unknown event: ${scheduled.eventId}`);
+                }
+            }
+        }
+    }
+
+    // Chain-only events nobody schedules can never be drawn
+    for (const event of events) {
+        if (event.chainOnly && !scheduledIds.has(event.id)) {
+            errors.push(`Chain-only event ${event.id} is never scheduled`);
+        }
+    }
+
+    // Check sector targets name a sector unions can actually be generated in,
+    // and archetype targets an archetype some rule preset rolls
+    const unionSectors = new Set([
+        ...NAME_PARTS.sectors,
+        ...scenarios.flatMap(s => s.nameParts.sectors),
+    ]);
+    const archetypes = rules ? new Set(rules.presets.flatMap(p => p.archetypes.map(a => a.id))) : null;
+    for (const event of events) {
+        for (const choice of event.choices) {
+            for (const effect of choice.targets ?? []) {
+                if (effect.target.by === 'sector' && !unionSectors.has(effect.target.sector)) {
+                    errors.push(`Event ${event.id} choice ${choice.id} targets unknown sector: ${effect.target.sector}`);
+                }
+                if (effect.target.by === 'archetype' && archetypes && !archetypes.has(effect.target.archetype)) {
+                    errors.push(`Event ${event.id} choice ${choice.id} targets unknown archetype: ${effect.target.archetype}`);
+                }
+            }
+        }
+    }
+
+    // Check sector economy effects and conditions name a sector some run can have
+    for (const event of events) {
+        const conditions = [event.conditions, ...event.choices.map(c => c.conditions)];
+        for (const sector of conditions.flatMap(c => Object.keys(c?.sectorUnrestMin ?? {}))) {
+            if (!unionSectors.has(sector)) {
+                errors.push(`Event ${event.id} checks unrest in unknown sector: ${sector}`);
+            }
+        }
+        for (const choice of event.choices) {
+            for (const sector of Object.keys(choice.sectors ?? {})) {
+                if (!unionSectors.has(sector)) {
+                    errors.push(`Event ${event.id} choice ${choice.id} shifts unknown sector: ${sector}`);
+                }
+            }
+        }
+    }
+
+    // Check scenarios reweight real events, set an era the museum knows and leave a deck to draw
+    const scenarioIds = new Set<string>();
+    const eras = new Set(footnotes.map(f => f.era));
+    for (const scenario of scenarios) {
+        if (scenarioIds.has(scenario.id)) {
+            errors.push(`Duplicate scenario ID: ${scenario.id}`);
+        }
+        scenarioIds.add(scenario.id);
+
+        if (!eras.has(scenario.era)) {
+            errors.push(`Scenario ${scenario.id} is set in an era no footnote covers: ${scenario.era}`);
+        }
+        for (const eventId of Object.keys(scenario.deckWeights.events)) {
+            if (!eventsById.has(eventId)) {
+                errors.push(`Scenario ${scenario.id} reweights unknown event: ${eventId}`);
+            }
+        }
+        if (!events.some(e => !e.chainOnly && getEventWeight(e, scenario) > 0)) {
+            errors.push(`Scenario ${scenario.id} leaves no event in the deck`);
+        }
+    }
+
     return errors;
 }
@@ -1,15 +1,32 @@
 /**
  * Content type definitions
  * 
- * Types for JSON-loaded content (events, footnotes, name parts)
+ * Types for JSON-loaded content (events, footnotes, name parts, rules)
+ * Scenario packs are typed in engine/scenario.ts, which the engine reads.
  */
 
-import type { Resources } from '../engine/state';
+import type { Resources, StatusTag } from '../engine/state';
+import type { UnionStatEffects } from '../engine/effects';
+import type { RuleSet } from '../engine/rules';
+import type { Scenario } from '../engine/scenario';
 
 // ============================================
 // EVENT TYPES
 // ============================================
 
+/** An earlier event (and optionally the choice taken on it) */
+export type EventRequirement = {
+    eventId: string;
+    choiceId?: string;
+};
+
+/** Schedule a follow-up event */
+export type ScheduledEvent = {
+    eventId: string;
+    /** Cycles until it is drawn ahead of the deck */
+    delay: number;
+};
+
 export type EventConditions = {
     patronageMin?: number;
     patronageMax?: number;
@@ -23,6 +40,68 @@ export type EventConditions = {
     cycleMax?: number;
     federationCountMin?: number;
     unionCountMin?: number;
+    /** Federations the rival hatchery holds (never met in runs without a rival) */
+    rivalFederationCountMin?: number;
+    /** Sectors whose unrest must be at least these values */
+    sectorUnrestMin?: Record<string, number>;
+    /** Earlier events or choices that must all have been taken */
+    requires?: EventRequirement[];
+    /** Boolean flags that must have these values */
+    flags?: Record<string, boolean>;
+    /** Counter flags that must be at least these values */
+    flagMin?: Record<string, number>;
+    /** Counter flags that must be at most these values */
+    flagMax?: Record<string, number>;
+};
+
+/** Which unions a targeted effect lands on (see engine/targets.ts) */
+export type TargetSelector =
+    | { by: 'sector'; sector: string }
+    | { by: 'tag'; tag: string }
+    | { by: 'archetype'; archetype: string }
+    /** One random member of one random federation */
+    | { by: 'federationMember' }
+    /** The union the player picks when taking the choice */
+    | { by: 'playerPick' };
+
+export type TargetedEffect = {
+    target: TargetSelector;
+    /** Stat deltas for each targeted union */
+    stats?: UnionStatEffects;
+    /** Crack the targeted unions */
+    crack?: boolean;
+    addTags?: string[];
+    removeTags?: string[];
+    /** Statuses applied to each targeted union */
+    statuses?: StatusTag[];
+    /** Visibility change for federations holding a targeted union */
+    visibility?: number;
+};
+
+/** Changes to the election itself (see engine/election.ts) */
+export type DelegateEffects = {
+    /** Bonus delegates gained (or lost) for the election */
+    bonus?: number;
+    /** Cancel the delegates of one random recognized federation */
+    cancelFederation?: boolean;
+    /** Change to the council seats needed for a majority */
+    threshold?: number;
+};
+
+/** Moves against the rival hatchery (see engine/rival.ts) */
+export type RivalEffects = {
+    /** Strip one random recognized rival federation of recognition */
+    sabotage?: boolean;
+    /** Bring one random licensed rival union over to the player's registry */
+    poach?: boolean;
+};
+
+/** Changes to one sector's economy (see engine/sectors.ts) */
+export type SectorEffects = {
+    workforce?: number;
+    unrest?: number;
+    employerStrength?: number;
+    health?: number;
 };
 
 export type EventChoice = {
@@ -34,6 +113,26 @@ export type EventChoice = {
     effects: Partial<Resources>;
     /** Footnote IDs to unlock */
     unlocks?: string[];
+    /** Whistleblower evidence gathered by taking this choice */
+    evidence?: number;
+    /** Visibility change applied to every federation */
+    visibility?: number;
+    /** Statuses applied, each to one random licensed union */
+    statuses?: StatusTag[];
+    /** Effects on specific unions and their federations */
+    targets?: TargetedEffect[];
+    /** Follow-up events queued by taking this choice */
+    schedules?: ScheduledEvent[];
+    /** Effects on the election */
+    delegates?: DelegateEffects;
+    /** Effects on the rival hatchery (ignored without one) */
+    rival?: RivalEffects;
+    /** Effects on sector economies, by sector name */
+    sectors?: Record<string, SectorEffects>;
+    /** Boolean flags set by taking this choice */
+    setFlags?: Record<string, boolean>;
+    /** Counter flags incremented by taking this choice */
+    incrementFlags?: Record<string, number>;
     /** Flavor text shown after choosing (optional) */
     outcome?: string;
 };
@@ -49,6 +148,8 @@ export type EventCard = {
     weight: number;
     /** Conditions for event to be eligible */
     conditions?: EventConditions;
+    /** Only drawn when scheduled by another event, never from the deck */
+    chainOnly?: boolean;
     choices: EventChoice[];
 };
 
@@ -71,6 +172,17 @@ export type FootnoteCard = {
     source?: string;
 };
 
+// ============================================
+// FLAG TYPES
+// ============================================
+
+export type FlagDefinition = {
+    id: string;
+    type: 'boolean' | 'counter';
+    /** What the flag remembers (for content authors) */
+    description: string;
+};
+
 // ============================================
 // NAME GENERATION TYPES
 // ============================================
@@ -82,6 +194,44 @@ export type NameParts = {
     modifiers: string[];
 };
 
+// ============================================
+// RULE TYPES
+// ============================================
+
+/** The rule presets of rules.v1.json, with every `extends` resolved */
+export type RulePresets = {
+    /** Preset the start menu and Daily Dispatch use */
+    defaultPreset: string;
+    presets: RuleSet[];
+};
+
+// ============================================
+// CAMPAIGN TYPES
+// ============================================
+
+/** One election of a campaign, as authored (see engine/campaign.ts) */
+export type ChapterDefinition = {
+    id: string;
+    title: string;
+    /** Shown in the interlude before the chapter */
+    briefing: string;
+    /** Seats added to the previous chapter's council */
+    seatIncrease: number;
+    /** Cycles before the election (the preset's count when omitted) */
+    cycles?: number;
+    /** Rule set fields changed from this chapter on, merged like a preset's `extends` */
+    ruleChanges: Record<string, unknown>;
+    /** Player-facing summary of the rule changes */
+    ruleNotes: string[];
+};
+
+export type CampaignDefinition = {
+    id: string;
+    name: string;
+    description: string;
+    chapters: ChapterDefinition[];
+};
+
 // ============================================
 // CONTENT BUNDLE
 // ============================================
@@ -90,4 +240,8 @@ export type ContentBundle = {
     events: EventCard[];
     footnotes: FootnoteCard[];
     nameParts: NameParts;
+    flags: FlagDefinition[];
+    rules: RulePresets;
+    scenarios: Scenario[];
+    campaigns: CampaignDefinition[];
 };
@@ -0,0 +1,148 @@
+/**
+ * Campaign mode
+ *
+ * A campaign strings several elections together. Each chapter is a block
+ * of cycles ending in an election under the chapter's own rule set: the
+ * council grows and the rules change from one chapter to the next,
+ * while unions, federations, statuses, flags and resources carry over.
+ *
+ * Winning a chapter's election moves the run into the interlude before
+ * the next chapter; winning the final chapter captures the council for
+ * good. Losing power (an election or a risk meter) ends the campaign, as
+ * a partial victory if an earlier election was won.
+ *
+ * Chapters are resolved against the chosen preset when the run starts
+ * (see content/schemas.ts) and stored in RunState, like the rule set.
+ */
+
+import type { RunState, Ending, ElectionResult } from './state';
+import { getTotalDelegates } from './state';
+import type { RuleSet } from './rules';
+import { getCouncilSeats } from './council';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type CampaignChapter = {
+    id: string;
+    title: string;
+    /** Shown in the interlude before the chapter starts */
+    briefing: string;
+    /** What changed since the previous chapter, for the interlude */
+    ruleNotes: string[];
+    /** Complete rules of the chapter, with the preset and every earlier change applied */
+    rules: RuleSet;
+};
+
+export type Campaign = {
+    id: string;
+    name: string;
+    description: string;
+    chapters: CampaignChapter[];
+};
+
+/** Outcome of one chapter's election */
+export type ChapterResult = {
+    chapterId: string;
+    title: string;
+    won: boolean;
+    /** Council seats the player held, bargained seats included */
+    seats: number;
+    /** Seats needed for a majority */
+    majority: number;
+    /** Recognized delegates going into the election */
+    delegates: number;
+};
+
+/** A campaign in progress */
+export type CampaignRun = Campaign & {
+    /** Index of the current chapter */
+    chapterIndex: number;
+    /** Elections held so far, in order */
+    results: ChapterResult[];
+};
+
+// ============================================
+// PROGRESS
+// ============================================
+
+export function getCurrentChapter(campaign: CampaignRun): CampaignChapter {
+    return campaign.chapters[campaign.chapterIndex];
+}
+
+/** The chapter after the current one, or null in the final chapter */
+export function getNextChapter(campaign: CampaignRun): CampaignChapter | null {
+    return campaign.chapters[campaign.chapterIndex + 1] ?? null;
+}
+
+export function getElectionsWon(campaign: CampaignRun): number {
+    return campaign.results.filter(result => result.won).length;
+}
+
+// ============================================
+// ENDINGS
+// ============================================
+
+/**
+ * Ending of a run that lost power
+ * A campaign that already won an election ends as a partial victory.
+ */
+export function getDefeatEnding(state: RunState): Ending {
+    return state.campaign && getElectionsWon(state.campaign) > 0 ? 'partial' : 'collapse';
+}
+
+/**
+ * Close a campaign chapter after Election Night
+ * Records the result, then moves on to the interlude or ends the campaign.
+ */
+export function concludeChapter(state: RunState, campaign: CampaignRun, result: ElectionResult): RunState {
+    const chapter = getCurrentChapter(campaign);
+    const recorded: CampaignRun = {
+        ...campaign,
+        results: [...campaign.results, {
+            chapterId: chapter.id,
+            title: chapter.title,
+            won: result.won,
+            seats: getCouncilSeats(result.council).player,
+            majority: result.council.majority,
+            delegates: getTotalDelegates(state),
+        }],
+    };
+    const concluded: RunState = { ...state, electionResult: result, campaign: recorded };
+
+    if (!result.won) {
+        return { ...concluded, phase: 'ended', ending: getDefeatEnding(concluded) };
+    }
+    if (!getNextChapter(recorded)) {
+        return { ...concluded, phase: 'ended', ending: 'capture' };
+    }
+    return { ...concluded, phase: 'interlude' };
+}
+
+/**
+ * Open the next chapter
+ * Switches to its rules and cycle count and clears everything that only
+ * lasted until the election. Cycles count from 1 again, so follow-up
+ * events move down by the finished chapter's cycles (overdue ones fall
+ * due in the first). The caller runs the upkeep of the interlude.
+ */
+export function openNextChapter(state: RunState, campaign: CampaignRun): RunState {
+    const chapterIndex = campaign.chapterIndex + 1;
+    const { rules } = campaign.chapters[chapterIndex];
+
+    return {
+        ...state,
+        campaign: { ...campaign, chapterIndex },
+        rules,
+        maxCycles: rules.maxCycles,
+        pendingEvents: state.pendingEvents.map(pending => ({
+            ...pending,
+            dueCycle: Math.max(1, pending.dueCycle - state.maxCycles),
+        })),
+        electionResult: null,
+        bonusDelegates: 0,
+        cancelledFederationIds: [],
+        thresholdModifier: 0,
+    };
+}
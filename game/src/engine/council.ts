@@ -0,0 +1,177 @@
+/**
+ * Labor council
+ *
+ * The election fills a council of a fixed number of seats, set by the
+ * rule set. Some seats are reserved for sectors, some are held by
+ * uncommitted independents, and the rest are general seats taken by the
+ * delegates that held firm on Election Night. Controlling the council
+ * takes a real majority: more than half of all its seats.
+ *
+ * - General seats go to secured delegates. If the player and the rival
+ *   bring more delegates than there are seats, they share the seats in
+ *   proportion, rounded down, and any seat left over stays vacant.
+ * - A sector seat goes to the side with the most member unions of that
+ *   sector in federations that secured a delegate; with no such unions,
+ *   or a tie, it stays uncommitted.
+ * - Uncommitted seats (independents and unclaimed sector seats) swing.
+ *   After the vote the player can bargain for them with patronage, at a
+ *   price that rises with every delegate won over. The rival does not
+ *   bargain; swing seats nobody buys abstain.
+ */
+
+import type { RunState, DelegateRoll, UnionEntity, FederationEntity } from './state';
+import type { CouncilRules } from './rules';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SeatHolder = 'player' | 'rival';
+
+export type SectorSeat = {
+    sector: string;
+    /** Null while uncommitted */
+    holder: SeatHolder | null;
+};
+
+/** How the council's seats fell on Election Night */
+export type CouncilTally = {
+    /** Seats on the council */
+    seats: number;
+    /** Seats needed to control it */
+    majority: number;
+    /** General seats taken by secured delegates, and those left vacant */
+    generalSeats: { player: number; rival: number; vacant: number };
+    sectorSeats: SectorSeat[];
+    /** Uncommitted seats: independents plus unclaimed sector seats */
+    swingSeats: number;
+    /** Swing seats the player has won over by bargaining */
+    bargained: number;
+};
+
+// ============================================
+// COMPOSITION
+// ============================================
+
+/** More than half of the council's seats */
+export function getCouncilMajority(council: CouncilRules): number {
+    return Math.floor(council.seats / 2) + 1;
+}
+
+/** Seats left once sector seats and independents are set aside */
+export function getGeneralSeatCount(council: CouncilRules): number {
+    const reserved = Object.values(council.sectorSeats).reduce((sum, count) => sum + count, 0);
+    return council.seats - reserved - council.independentSeats;
+}
+
+/** Share out general seats between the two sides' secured delegates */
+function allocateGeneralSeats(seats: number, player: number, rival: number): CouncilTally['generalSeats'] {
+    if (player + rival <= seats) {
+        return { player, rival, vacant: seats - player - rival };
+    }
+    const playerSeats = Math.floor(seats * player / (player + rival));
+    const rivalSeats = Math.floor(seats * rival / (player + rival));
+    return { player: playerSeats, rival: rivalSeats, vacant: seats - playerSeats - rivalSeats };
+}
+
+/** Member unions of a sector in federations that secured at least one delegate */
+function countSectorMembers(
+    sector: string,
+    rolls: DelegateRoll[],
+    federations: Record<string, FederationEntity>,
+    unions: Record<string, UnionEntity>
+): number {
+    return rolls
+        .filter(roll => roll.secured > 0)
+        .flatMap(roll => federations[roll.federationId]?.unionIds ?? [])
+        .filter(id => unions[id]?.sector === sector)
+        .length;
+}
+
+// ============================================
+// TALLY
+// ============================================
+
+/**
+ * Seat the council after the delegate rolls
+ * `majority` already includes any event modifiers.
+ */
+export function tallyCouncil(
+    state: RunState,
+    majority: number,
+    playerRolls: DelegateRoll[],
+    playerSecured: number,
+    rivalRolls: DelegateRoll[],
+    rivalSecured: number
+): CouncilTally {
+    const { council } = state.rules;
+
+    const sectorSeats: SectorSeat[] = [];
+    for (const [sector, count] of Object.entries(council.sectorSeats)) {
+        const player = countSectorMembers(sector, playerRolls, state.federations, state.unions);
+        const rival = state.rival
+            ? countSectorMembers(sector, rivalRolls, state.rival.federations, state.rival.unions)
+            : 0;
+        const holder: SeatHolder | null = player > rival ? 'player' : rival > player ? 'rival' : null;
+        for (let i = 0; i < count; i++) {
+            sectorSeats.push({ sector, holder });
+        }
+    }
+
+    return {
+        seats: council.seats,
+        majority,
+        generalSeats: allocateGeneralSeats(getGeneralSeatCount(council), playerSecured, rivalSecured),
+        sectorSeats,
+        swingSeats: council.independentSeats + sectorSeats.filter(seat => seat.holder === null).length,
+        bargained: 0,
+    };
+}
+
+/** Seats each side holds, counting sector seats and the swing seats the player bargained for */
+export function getCouncilSeats(tally: CouncilTally): Record<SeatHolder, number> {
+    const sector = (holder: SeatHolder) => tally.sectorSeats.filter(seat => seat.holder === holder).length;
+    return {
+        player: tally.generalSeats.player + sector('player') + tally.bargained,
+        rival: tally.generalSeats.rival + sector('rival'),
+    };
+}
+
+/** Whether the player controls the council: a majority, and more seats than the rival */
+export function holdsCouncil(tally: CouncilTally): boolean {
+    const seats = getCouncilSeats(tally);
+    return seats.player >= tally.majority && seats.player > seats.rival;
+}
+
+// ============================================
+// BARGAINING
+// ============================================
+
+/** Patronage for the next swing delegate */
+export function getSwingCost(state: RunState): number {
+    const { swingCost, swingCostStep } = state.rules.council;
+    return swingCost + swingCostStep * (state.electionResult?.council.bargained ?? 0);
+}
+
+/** Whether a swing delegate is left and affordable */
+export function canBargain(state: RunState): boolean {
+    const tally = state.electionResult?.council;
+    if (state.phase !== 'election' || !tally) return false;
+    return tally.bargained < tally.swingSeats && state.resources.patronage >= getSwingCost(state);
+}
+
+/**
+ * Win over one swing delegate after the vote
+ * The caller checks canBargain; the price rises with every seat bought.
+ */
+export function bargainSwingSeat(state: RunState): RunState {
+    const result = state.electionResult;
+    if (!result) return state;
+
+    const council = { ...result.council, bargained: result.council.bargained + 1 };
+    return {
+        ...state,
+        resources: { ...state.resources, patronage: state.resources.patronage - getSwingCost(state) },
+        electionResult: { ...result, council, won: holdsCouncil(council) },
+    };
+}
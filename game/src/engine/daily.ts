@@ -0,0 +1,66 @@
+/**
+ * Daily Dispatch
+ *
+ * One run per UTC day, the same for every player: the seed is hashed
+ * from the date and the rules are fixed (Normal preset, no undo, no
+ * tips). The run goes through the ordinary createInitialState(seed)
+ * path; only the settings mark it as a daily so the ending can be scored.
+ */
+
+import type { RunState, RunSettings } from './state';
+import { DEFAULT_SETTINGS, getTotalDelegates } from './state';
+import { SEED_CODE_SPACE } from './seedCode';
+
+// ============================================
+// DATE AND SEED
+// ============================================
+
+/** Today's UTC date as YYYY-MM-DD */
+export function getDailyDate(now: Date = new Date()): string {
+    return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Seed for a date (FNV-1a over the date string)
+ * Kept below SEED_CODE_SPACE so the daily has a short seed code.
+ */
+export function getDailySeed(date: string): number {
+    let hash = 0x811c9dc5;
+    for (const char of `daily:${date}`) {
+        hash ^= char.charCodeAt(0);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) % SEED_CODE_SPACE;
+}
+
+/** The fixed rules of a daily run */
+export function getDailySettings(date: string): RunSettings {
+    return { ...DEFAULT_SETTINGS, allowUndo: false, dailyDate: date };
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+const ENDING_BONUS = {
+    capture: 1000,
+    whistleblower: 750,
+    partial: 500,
+    collapse: 0,
+};
+
+/**
+ * Score of a finished run
+ * Survival and delegates count for every ending; winning counts most,
+ * and a clean finish (legitimacy kept, audit and street quiet) adds a little.
+ */
+export function getRunScore(state: RunState): number {
+    const survival = state.cycle * 100;
+    const delegates = getTotalDelegates(state) * 50;
+    const ending = state.ending ? ENDING_BONUS[state.ending] : 0;
+    const standing = state.resources.legitimacy * 5 -
+        state.resources.auditRisk * 2 -
+        state.resources.streetHeat * 2;
+
+    return Math.max(0, survival + delegates + ending + standing);
+}
@@ -5,26 +5,30 @@
  * and validation of resource/stat changes.
  */
 
-import type { Resources, RunState, UnionEntity } from './state';
-import { getCrackRisk } from './state';
-import { createRNG } from './rng';
+import type { Resources, RunState, UnionEntity, FederationEntity } from './state';
+import { getCrackRisk, getTotalDelegates, isShellUnion } from './state';
+import { createRNG, type RNG } from './rng';
+import { getCycleEvidence } from './evidence';
+import { processRecognitionReviews, getSectorConcentration } from './recognition';
+import { runRivalCycle } from './rival';
+import { driftSectors, getEmployerLoyaltyLoss } from './sectors';
+import { getStatusUpkeep, tickStatuses } from './status';
 
 // ============================================
 // CLAMP BOUNDARIES
 // ============================================
 
-export const CLAMPS = {
-    // Resources
-    paperwork: { min: 0, max: 10 },
-    patronage: { min: 0, max: 20 },
-    legitimacy: { min: 0, max: 100 },
-    auditRisk: { min: 0, max: 100 },
-    streetHeat: { min: 0, max: 100 },
+/** Resources floor at 0; their caps come from the run's rule set */
+const RESOURCE_MIN = 0;
 
+export const CLAMPS = {
     // Union stats
     plausibility: { min: 0, max: 100 },
     loyalty: { min: 0, max: 100 },
     integrity: { min: 0, max: 100 },
+
+    // Federation stats
+    visibility: { min: 0, max: 100 },
 } as const;
 
 function clamp(value: number, min: number, max: number): number {
@@ -38,41 +42,32 @@ function clamp(value: number, min: number, max: number): number {
 export type ResourceEffects = Partial<Resources>;
 
 /**
- * Apply resource deltas with clamping
+ * Apply resource deltas to the run's resources
+ * Clamped between 0 and the caps of the run's rule set
  */
 export function applyResourceEffects(
-    resources: Resources,
+    state: Pick<RunState, 'resources' | 'rules'>,
     effects: ResourceEffects
 ): Resources {
+    const { resources } = state;
+    const caps = state.rules.resourceCaps;
     return {
-        paperwork: clamp(
-            resources.paperwork + (effects.paperwork ?? 0),
-            CLAMPS.paperwork.min,
-            CLAMPS.paperwork.max
-        ),
-        patronage: clamp(
-            resources.patronage + (effects.patronage ?? 0),
-            CLAMPS.patronage.min,
-            CLAMPS.patronage.max
-        ),
-        legitimacy: clamp(
-            resources.legitimacy + (effects.legitimacy ?? 0),
-            CLAMPS.legitimacy.min,
-            CLAMPS.legitimacy.max
-        ),
-        auditRisk: clamp(
-            resources.auditRisk + (effects.auditRisk ?? 0),
-            CLAMPS.auditRisk.min,
-            CLAMPS.auditRisk.max
-        ),
-        streetHeat: clamp(
-            resources.streetHeat + (effects.streetHeat ?? 0),
-            CLAMPS.streetHeat.min,
-            CLAMPS.streetHeat.max
-        ),
+        paperwork: clamp(resources.paperwork + (effects.paperwork ?? 0), RESOURCE_MIN, caps.paperwork),
+        patronage: clamp(resources.patronage + (effects.patronage ?? 0), RESOURCE_MIN, caps.patronage),
+        legitimacy: clamp(resources.legitimacy + (effects.legitimacy ?? 0), RESOURCE_MIN, caps.legitimacy),
+        auditRisk: clamp(resources.auditRisk + (effects.auditRisk ?? 0), RESOURCE_MIN, caps.auditRisk),
+        streetHeat: clamp(resources.streetHeat + (effects.streetHeat ?? 0), RESOURCE_MIN, caps.streetHeat),
     };
 }
 
+/**
+ * Whether current resources cover the costs (negative paperwork/patronage) in a set of effects
+ */
+export function canAfford(resources: Resources, effects: ResourceEffects): boolean {
+    return resources.paperwork + Math.min(0, effects.paperwork ?? 0) >= 0 &&
+        resources.patronage + Math.min(0, effects.patronage ?? 0) >= 0;
+}
+
 // ============================================
 // UNION STAT EFFECTS
 // ============================================
@@ -111,75 +106,197 @@ export function applyUnionEffects(
 }
 
 // ============================================
-// UPKEEP CALCULATION
+// FEDERATION EFFECTS
 // ============================================
 
 /**
- * Calculate end-of-cycle upkeep effects
+ * Apply a visibility change to a federation
  */
-export function calculateUpkeep(state: RunState): ResourceEffects {
-    const unionCount = Object.keys(state.unions).length;
-    const federationCount = Object.keys(state.federations).length;
-    const unions = Object.values(state.unions);
+export function applyFederationVisibility(
+    federation: FederationEntity,
+    delta: number
+): FederationEntity {
+    return {
+        ...federation,
+        visibility: clamp(
+            federation.visibility + delta,
+            CLAMPS.visibility.min,
+            CLAMPS.visibility.max
+        ),
+    };
+}
 
-    // 1. Audit Risk: Base + Shell Risk
-    // Shells are defined as maintaining 0 cost (or tagged 'compliant'/'shell' if we relied on tags, 
-    // but generator now sets cost to 0 for shells).
-    // Let's rely on low integrity (< 30) or specific tags to identify 'risk generating' shells.
-    // For now, let's use the 'compliant' tag as a proxy for shells/paper unions.
-    const shellCount = unions.filter(u => u.tags.includes('compliant') || u.tags.includes('shell')).length;
+// ============================================
+// UPKEEP CALCULATION
+// ============================================
 
-    // Each shell adds 1 risk per turn directly (accumulating time bomb)
-    // Plus standard risk from scaling size
-    const auditIncrease = Math.floor(unionCount / 5) + federationCount + shellCount;
+/** One itemized line of end-of-cycle upkeep */
+export type UpkeepItem = {
+    id: string;
+    label: string;
+    effects: ResourceEffects;
+};
 
-    // 2. Paperwork Refresh
-    // Stays at flat refresh for now to represent limited bureaucratic hours
-    const paperworkRefresh = 6 - state.resources.paperwork;
+/**
+ * Sum several resource effect sets into one
+ */
+export function combineEffects(...effects: ResourceEffects[]): ResourceEffects {
+    const combined: ResourceEffects = {};
+    for (const effect of effects) {
+        for (const [key, value] of Object.entries(effect) as [keyof Resources, number][]) {
+            combined[key] = (combined[key] ?? 0) + value;
+        }
+    }
+    return combined;
+}
 
-    // 3. Patronage Income (The Reform)
-    // Base 2 + 1 per Delegate controlled
-    const totalDelegates = Object.values(state.federations)
-        .filter(f => f.recognition === 'recognized')
-        .reduce((sum, f) => sum + f.delegates, 0);
+/**
+ * Patronage income for the cycle (The Reform)
+ * The rule set's base income + 1 per recognized delegate controlled
+ */
+export function getPatronageIncome(state: RunState): number {
+    return state.rules.upkeep.basePatronageIncome + getTotalDelegates(state);
+}
 
-    // We want to ADD to current patronage, not set it to a fixed value?
-    // The previous logic was: `paperwork: 3 - current` (refill to 3)
-    // `auditRisk: increase` (add)
-    // `streetHeat: decay` (add negative)
+/**
+ * Unions that cannot be paid this cycle
+ * Status drains are charged first; only licensed unions draw maintenance,
+ * and the cheapest are paid first from what is left of current patronage
+ * plus income
+ */
+export function getUnpaidUnionIds(state: RunState): string[] {
+    let budget = state.resources.patronage + getPatronageIncome(state) + Math.min(0, getStatusUpkeep(state).patronage ?? 0);
+    const unpaid: string[] = [];
+
+    const payable = Object.values(state.unions)
+        .filter(u => u.isLicensed && !u.isCracked && u.maintenanceCost > 0)
+        .sort((a, b) => a.maintenanceCost - b.maintenanceCost || a.id.localeCompare(b.id));
+
+    for (const union of payable) {
+        if (union.maintenanceCost <= budget) {
+            budget -= union.maintenanceCost;
+        } else {
+            unpaid.push(union.id);
+        }
+    }
 
-    // For Patronage, let's make it additive income.
-    // User requested "massive boost", so Base 7.
-    const patronageIncome = 7 + (totalDelegates * 1);
+    return unpaid;
+}
 
-    // 4. Street Heat Decay
-    const streetHeatDecay = state.resources.streetHeat > 0 ? -2 : 0;
+/**
+ * Itemized end-of-cycle upkeep, for the engine and the UI forecast
+ */
+export function getUpkeepItems(state: RunState): UpkeepItem[] {
+    const unionCount = Object.keys(state.unions).length;
+    const federationCount = Object.keys(state.federations).length;
 
-    // 5. Legitimacy Decay from Shells
-    // If you have too many shells, people start to notice.
-    const legitimacyDecay = shellCount > 2 ? -(shellCount - 2) : 0;
+    // Shells (tagged 'compliant'/'shell') are free to keep but generate risk
+    const shellCount = Object.values(state.unions).filter(isShellUnion).length;
+
+    // Only what can actually be paid leaves the treasury
+    const unpaidIds = new Set(getUnpaidUnionIds(state));
+    const maintenancePaid = Object.values(state.unions)
+        .filter(u => u.isLicensed && !u.isCracked && !unpaidIds.has(u.id))
+        .reduce((sum, u) => sum + u.maintenanceCost, 0);
+
+    const rules = state.rules.upkeep;
+
+    const items: UpkeepItem[] = [
+        // Flat refresh to represent limited bureaucratic hours
+        { id: 'paperwork', label: 'Office hours', effects: { paperwork: rules.paperworkRefresh - state.resources.paperwork } },
+        // Additive patronage income
+        { id: 'income', label: 'Patronage income', effects: { patronage: getPatronageIncome(state) } },
+        { id: 'maintenance', label: 'Union maintenance', effects: { patronage: -maintenancePaid } },
+        // Standard risk from scaling size
+        { id: 'registry', label: 'Registry size', effects: { auditRisk: Math.floor(unionCount / rules.unionsPerAuditRisk) + federationCount } },
+        // Each shell adds 1 risk per turn directly (accumulating time bomb)
+        { id: 'shells', label: 'Shell unions', effects: { auditRisk: shellCount } },
+        { id: 'streetHeat', label: 'Tempers cool', effects: { streetHeat: state.resources.streetHeat > 0 ? -rules.streetHeatCooling : 0 } },
+        // If you have too many shells, people start to notice
+        { id: 'shellNotice', label: 'Shells noticed', effects: { legitimacy: shellCount > rules.shellAllowance ? -(shellCount - rules.shellAllowance) : 0 } },
+        // Complaints, radicals and scandals on individual unions
+        { id: 'statuses', label: 'Union statuses', effects: getStatusUpkeep(state) },
+    ];
+
+    return items.filter(item => Object.values(item.effects).some(v => v !== 0));
+}
 
-    return {
-        paperwork: paperworkRefresh, // Refill to 3
-        patronage: patronageIncome, // Additive income
-        auditRisk: auditIncrease,
-        streetHeat: streetHeatDecay,
-        legitimacy: legitimacyDecay,
-    };
+/**
+ * Calculate end-of-cycle upkeep effects
+ */
+export function calculateUpkeep(state: RunState): ResourceEffects {
+    return combineEffects(...getUpkeepItems(state).map(item => item.effects));
 }
 
 // ============================================
 // CYCLE PROGRESSION
 // ============================================
 
+/**
+ * Cut loyalty of unpaid unions; the most disloyal defect
+ * Defectors lose their license and walk out of their federation; a
+ * federation left with fewer than 2 members falls apart with them.
+ * Returns updated entities, unions left strained, and penalties
+ */
+function processMaintenance(
+    state: RunState
+): {
+    unions: Record<string, UnionEntity>;
+    federations: Record<string, FederationEntity>;
+    strainedIds: Set<string>;
+    penalties: ResourceEffects;
+} {
+    const unions = { ...state.unions };
+    let federations = state.federations;
+    const strainedIds = new Set<string>();
+    let legitimacyPenalty = 0;
+
+    const { unpaidLoyaltyLoss, defectionLoyalty, defectionLegitimacyLoss } = state.rules.upkeep;
+
+    for (const unionId of getUnpaidUnionIds(state)) {
+        const union = applyUnionEffects(unions[unionId], { loyalty: -unpaidLoyaltyLoss });
+
+        if (union.loyalty <= defectionLoyalty) {
+            // Defection: the union takes its members elsewhere
+            unions[unionId] = { ...union, isLicensed: false };
+            federations = Object.fromEntries(
+                Object.entries(federations).map(([id, f]) => [
+                    id,
+                    f.unionIds.includes(unionId)
+                        ? { ...f, unionIds: f.unionIds.filter(uid => uid !== unionId) }
+                        : f,
+                ])
+            );
+            legitimacyPenalty -= defectionLegitimacyLoss;
+        } else {
+            unions[unionId] = union;
+            strainedIds.add(unionId);
+        }
+    }
+
+    // A federation needs at least 2 members to keep its delegates
+    federations = Object.fromEntries(
+        Object.entries(federations).filter(([, f]) => f.unionIds.length >= 2)
+    );
+
+    return {
+        unions,
+        federations,
+        strainedIds,
+        penalties: { legitimacy: legitimacyPenalty },
+    };
+}
+
 /**
  * Check for union cracks and handle dissolution
+ * Strained (unpaid) unions roll against a multiple of their crack risk.
  * Returns updated unions and resource penalties
  */
 function processCrackChecks(
-    state: RunState
+    state: RunState,
+    rng: RNG,
+    strainedIds: Set<string>
 ): { unions: Record<string, UnionEntity>; penalties: ResourceEffects } {
-    const rng = createRNG(state.rngCursor);
     const unions = { ...state.unions };
     let legitimacyPenalty = 0;
     let auditPenalty = 0;
@@ -190,7 +307,8 @@ function processCrackChecks(
         // Skip already cracked unions or unions not yet licensed
         if (union.isCracked || !union.isLicensed) continue;
 
-        const crackRisk = getCrackRisk(union);
+        const crackRisk = getCrackRisk(union, state.rules, state.sectors) *
+            (strainedIds.has(unionId) ? state.rules.formulas.crack.strainedMultiplier : 1);
         const roll = rng.nextInt(1, 100);
 
         if (roll <= crackRisk) {
@@ -202,8 +320,8 @@ function processCrackChecks(
             };
 
             // Penalty for quiet dissolution
-            legitimacyPenalty -= 2;
-            auditPenalty += 2;
+            legitimacyPenalty -= state.rules.upkeep.crackLegitimacyLoss;
+            auditPenalty += state.rules.upkeep.crackAuditRisk;
         }
     }
 
@@ -216,28 +334,69 @@ function processCrackChecks(
     };
 }
 
+/**
+ * Cut loyalty of unions whose sector's employers are strong enough to buy off officials
+ */
+function processEmployerPressure(
+    state: RunState,
+    unions: Record<string, UnionEntity>
+): Record<string, UnionEntity> {
+    const pressured = { ...unions };
+    for (const union of Object.values(unions)) {
+        if (union.isCracked) continue;
+        const loss = getEmployerLoyaltyLoss(union, state);
+        if (loss > 0) {
+            pressured[union.id] = applyUnionEffects(union, { loyalty: -loss });
+        }
+    }
+    return pressured;
+}
+
 /**
  * Apply all end-of-cycle effects
  */
 export function applyCycleEnd(state: RunState): RunState {
     const upkeep = calculateUpkeep(state);
+    const rng = createRNG(state.rngCursor);
+
+    // Pay maintenance; unpaid unions lose loyalty or defect
+    const maintenance = processMaintenance(state);
+    const paidState: RunState = {
+        ...state,
+        unions: maintenance.unions,
+        federations: maintenance.federations,
+    };
 
     // Process crack checks
-    const { unions: updatedUnions, penalties } = processCrackChecks(state);
+    const { unions: updatedUnions, penalties } = processCrackChecks(paidState, rng, maintenance.strainedIds);
 
-    // Combine upkeep and crack penalties
-    const combinedEffects: ResourceEffects = {
-        ...upkeep,
-        legitimacy: (upkeep.legitimacy ?? 0) + (penalties.legitimacy ?? 0),
-        auditRisk: (upkeep.auditRisk ?? 0) + (penalties.auditRisk ?? 0),
-    };
+    // Drift federation visibility and run Ministry reviews
+    const { federations: updatedFederations, penalties: reviewPenalties } =
+        processRecognitionReviews(paidState, rng);
+
+    // The rival hatchery plays its own cycle
+    const rivalTurn = runRivalCycle(state, rng);
+
+    // Employers lean on the unions, then the sector economy moves on (no RNG)
+    const pressuredUnions = processEmployerPressure(state, updatedUnions);
+    const sectors = driftSectors(state, getSectorConcentration(state));
+
+    // Combine upkeep, maintenance, crack and review penalties
+    const combinedEffects = combineEffects(upkeep, maintenance.penalties, penalties, reviewPenalties);
 
-    const newResources = applyResourceEffects(state.resources, combinedEffects);
+    const newResources = applyResourceEffects(state, combinedEffects);
 
     return {
         ...state,
-        unions: updatedUnions,
+        unions: tickStatuses(pressuredUnions, state.rules),
+        federations: updatedFederations,
+        rival: rivalTurn.rival,
+        sectors,
+        nextEntityId: rivalTurn.nextEntityId,
         resources: newResources,
+        rngCursor: rng.getCursor(),
+        // Leaks are counted before cracks so a union that cracks still talked
+        evidence: state.evidence + getCycleEvidence(state),
         cycle: state.cycle + 1,
         unionsGeneratedInCycle: false,
     };
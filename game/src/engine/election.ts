@@ -0,0 +1,177 @@
+/**
+ * Election resolution
+ *
+ * Rolls every delegate of every recognized federation against the
+ * average loyalty of its member unions. The rolls come from the run's
+ * RNG cursor, so the same seed produces the same election night in the
+ * browser and in the simulator.
+ *
+ * Events can tilt the finale: bonus delegates are added after the rolls,
+ * cancelled federations are not rolled at all, and the majority moves.
+ *
+ * With a rival hatchery (see engine/rival.ts) its recognized federations
+ * are rolled the same way, after the player's. The secured delegates
+ * then take their seats on the labor council (see engine/council.ts),
+ * and the player can bargain for swing seats before the result stands.
+ */
+
+import type { RunState, ElectionResult, DelegateRoll, FederationEntity, UnionEntity, RivalTally } from './state';
+import { getFederationReliability } from './state';
+import { createRNG, type RNG } from './rng';
+import { getCouncilMajority, tallyCouncil, holdsCouncil } from './council';
+import type { DelegateEffects } from '../content/types';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** The majority never drops below a single seat */
+const MIN_MAJORITY = 1;
+
+// ============================================
+// DELEGATE EFFECTS
+// ============================================
+
+/** Council seats needed for a majority, after event modifiers */
+export function getElectionMajority(state: RunState): number {
+    return Math.max(MIN_MAJORITY, getCouncilMajority(state.rules.council) + state.thresholdModifier);
+}
+
+/**
+ * Apply an event's delegate effects
+ * A cancellation hits one random recognized federation not already cancelled.
+ */
+export function applyDelegateEffects(state: RunState, effects: DelegateEffects, rng: RNG): RunState {
+    let cancelledFederationIds = state.cancelledFederationIds;
+    if (effects.cancelFederation) {
+        const candidates = Object.values(state.federations).filter(
+            f => f.recognition === 'recognized' && !cancelledFederationIds.includes(f.id)
+        );
+        if (candidates.length > 0) {
+            cancelledFederationIds = [...cancelledFederationIds, rng.pick(candidates).id];
+        }
+    }
+
+    return {
+        ...state,
+        bonusDelegates: Math.max(0, state.bonusDelegates + (effects.bonus ?? 0)),
+        thresholdModifier: state.thresholdModifier + (effects.threshold ?? 0),
+        cancelledFederationIds,
+    };
+}
+
+// ============================================
+// DELEGATE ROLLS
+// ============================================
+
+/**
+ * Roll one federation's delegates
+ * Each delegate holds with the members' average LOYALTY% chance
+ */
+function rollFederation(
+    federation: FederationEntity,
+    unions: Record<string, UnionEntity>,
+    rng: RNG
+): DelegateRoll {
+    const reliability = getFederationReliability(federation, unions);
+    const loyaltyPercent = (reliability / 2) * 100; // Convert back to percentage
+
+    // Roll each delegate independently
+    const delegateRolls: boolean[] = [];
+    for (let i = 0; i < federation.delegates; i++) {
+        const roll = rng.nextInt(1, 100);
+        delegateRolls.push(roll <= loyaltyPercent);
+    }
+
+    return {
+        federationId: federation.id,
+        federationName: federation.name,
+        expected: federation.delegates,
+        secured: delegateRolls.filter(Boolean).length,
+        rolls: delegateRolls,
+        cancelled: false,
+    };
+}
+
+/** Roll the rival's recognized federations (null without a rival) */
+function rollRival(state: RunState, rng: RNG): RivalTally | null {
+    if (!state.rival) return null;
+
+    const { unions, federations } = state.rival;
+    const rolls = Object.values(federations)
+        .filter(f => f.recognition === 'recognized')
+        .map(f => rollFederation(f, unions, rng));
+
+    return {
+        rolls,
+        expectedDelegates: rolls.reduce((sum, roll) => sum + roll.expected, 0),
+        securedDelegates: rolls.reduce((sum, roll) => sum + roll.secured, 0),
+    };
+}
+
+/**
+ * Roll every delegate for every recognized federation
+ * Each delegate votes for the player with LOYALTY% chance
+ */
+export function rollElection(state: RunState, rng: RNG): ElectionResult {
+    const rolls: DelegateRoll[] = [];
+
+    for (const federation of Object.values(state.federations)) {
+        if (federation.recognition !== 'recognized') continue;
+
+        if (state.cancelledFederationIds.includes(federation.id)) {
+            rolls.push({
+                federationId: federation.id,
+                federationName: federation.name,
+                expected: federation.delegates,
+                secured: 0,
+                rolls: [],
+                cancelled: true,
+            });
+            continue;
+        }
+
+        rolls.push(rollFederation(federation, state.unions, rng));
+    }
+
+    const { bonusDelegates } = state;
+    const expectedDelegates = rolls
+        .filter(roll => !roll.cancelled)
+        .reduce((sum, roll) => sum + roll.expected, bonusDelegates);
+    const securedDelegates = rolls.reduce((sum, roll) => sum + roll.secured, bonusDelegates);
+    const rival = rollRival(state, rng);
+    const council = tallyCouncil(
+        state,
+        getElectionMajority(state),
+        rolls,
+        securedDelegates,
+        rival?.rolls ?? [],
+        rival?.securedDelegates ?? 0
+    );
+
+    return {
+        rolls,
+        expectedDelegates,
+        securedDelegates,
+        bonusDelegates,
+        rival,
+        council,
+        won: holdsCouncil(council),
+    };
+}
+
+/**
+ * Move the run into Election Night
+ * Rolls are made once, on entry, and stored for the UI and the ending
+ */
+export function enterElection(state: RunState): RunState {
+    const rng = createRNG(state.rngCursor);
+    const electionResult = rollElection(state, rng);
+
+    return {
+        ...state,
+        phase: 'election',
+        electionResult,
+        rngCursor: rng.getCursor(),
+    };
+}
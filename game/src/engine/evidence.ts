@@ -0,0 +1,49 @@
+/**
+ * Whistleblower evidence
+ *
+ * The secret third ending. Every hatchery leaves a paper trail; the
+ * player can quietly collect it and go public instead of winning.
+ *
+ * Evidence comes from three places:
+ * - high-integrity unions whose real members leak documents each cycle
+ * - transparency choices on events (`evidence` on the choice)
+ * - newly unlocked footnotes (each one is a piece of the historical record)
+ */
+
+import type { RunState, UnionEntity } from './state';
+import type { EvidenceRules } from './rules';
+
+// ============================================
+// EVIDENCE SOURCES
+// ============================================
+
+/** Whether a union's real members leak documents to the player */
+export function isLeakingUnion(union: UnionEntity, rules: EvidenceRules): boolean {
+    return union.isLicensed && !union.isCracked && union.integrity >= rules.leakIntegrityMin;
+}
+
+/**
+ * Evidence gathered at the end of a cycle
+ * One document per leaking union
+ */
+export function getCycleEvidence(state: RunState): number {
+    return Object.values(state.unions).filter(u => isLeakingUnion(u, state.rules.evidence)).length;
+}
+
+/**
+ * Evidence gained from unlocking footnotes
+ * Only footnotes not already unlocked count
+ */
+export function getFootnoteEvidence(state: RunState, unlocks: string[]): number {
+    const newUnlocks = new Set(unlocks.filter(id => !state.unlockedFootnotes.includes(id)));
+    return newUnlocks.size * state.rules.evidence.perFootnote;
+}
+
+// ============================================
+// GOING PUBLIC
+// ============================================
+
+/** Whether the player has enough evidence to go public */
+export function canGoPublic(state: RunState): boolean {
+    return state.phase === 'playing' && state.evidence >= state.rules.evidence.required;
+}
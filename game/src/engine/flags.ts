@@ -0,0 +1,41 @@
+/**
+ * Run flags
+ *
+ * Narrative memory for content: booleans ("took the patron's money")
+ * and counters ("strikes broken"). Flag names are declared in
+ * flags.v1.json and validated against events when content loads.
+ * An unset boolean reads as false, an unset counter as 0.
+ */
+
+import type { RunFlags } from './state';
+
+/** Read a boolean flag */
+export function getBooleanFlag(flags: RunFlags, id: string): boolean {
+    return flags[id] === true;
+}
+
+/** Read a counter flag */
+export function getCounterFlag(flags: RunFlags, id: string): number {
+    const value = flags[id];
+    return typeof value === 'number' ? value : 0;
+}
+
+/**
+ * Apply a choice's flag changes
+ * Booleans are set outright, counters are incremented
+ */
+export function applyFlagChanges(
+    flags: RunFlags,
+    setFlags: Record<string, boolean> = {},
+    incrementFlags: Record<string, number> = {}
+): RunFlags {
+    if (Object.keys(setFlags).length === 0 && Object.keys(incrementFlags).length === 0) {
+        return flags;
+    }
+
+    const updated: RunFlags = { ...flags, ...setFlags };
+    for (const [id, amount] of Object.entries(incrementFlags)) {
+        updated[id] = getCounterFlag(flags, id) + amount;
+    }
+    return updated;
+}
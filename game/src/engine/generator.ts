@@ -6,87 +6,34 @@
  */
 
 import { createRNG, type RNG } from './rng';
-import type { UnionEntity } from './state';
-
-// ============================================
-// NAME PARTS (will move to JSON later)
-// ============================================
-
-const NAME_PARTS = {
-    prefixes: [
-        'United',
-        'Democratic',
-        'Free',
-        'National',
-        'Workers\'',
-        'People\'s',
-        'Progressive',
-        'Independent',
-        'Sovereign',
-        'Authentic',
-        'Reformed',
-        'New',
-    ],
-    sectors: [
-        'Textile',
-        'Transport',
-        'Municipal',
-        'Agricultural',
-        'Hospitality',
-        'Construction',
-        'Maritime',
-        'Printing',
-        'Banking',
-        'Telecommunications',
-        'Postal',
-        'Railway',
-    ],
-    suffixes: [
-        'Federation',
-        'Syndicate',
-        'Brotherhood',
-        'Assembly',
-        'Council',
-        'Alliance',
-        'Union',
-        'Collective',
-        'Association',
-        'Movement',
-    ],
-    modifiers: [
-        'of Greater Beirut',
-        'of the North',
-        'of the South',
-        'of the Coast',
-        'of Mount Lebanon',
-        '(Reformed)',
-        '(Unified)',
-        '(Traditional)',
-        '(Modernized)',
-        '',
-        '',
-        '', // Empty strings for variety
-    ],
-};
+import type { UnionEntity, FederationEntity } from './state';
+import { isShellUnion } from './state';
+import { getInitialVisibility } from './recognition';
+import { NAME_PARTS } from './nameParts';
+import type { RecognitionRules, StatRange, UnionArchetype } from './rules';
+import type { NameParts } from '../content/types';
 
 // ============================================
 // GENERATOR FUNCTIONS
 // ============================================
 
-let idCounter = 0;
-
-function generateId(): string {
-    return `union_${Date.now()}_${++idCounter}`;
+/**
+ * Format an entity ID from the run's counter (RunState.nextEntityId)
+ * IDs never depend on the clock, so a seed and an action sequence
+ * always produce the same IDs.
+ */
+export function formatEntityId(kind: 'union' | 'fed', counter: number): string {
+    return `${kind}_${counter}`;
 }
 
 /**
  * Generate a procedural union name
  */
-export function generateUnionName(rng: RNG): { name: string; sector: string } {
-    const prefix = rng.pick(NAME_PARTS.prefixes);
-    const sector = rng.pick(NAME_PARTS.sectors);
-    const suffix = rng.pick(NAME_PARTS.suffixes);
-    const modifier = rng.pick(NAME_PARTS.modifiers);
+export function generateUnionName(rng: RNG, nameParts: NameParts = NAME_PARTS): { name: string; sector: string } {
+    const prefix = rng.pick(nameParts.prefixes);
+    const sector = rng.pick(nameParts.sectors);
+    const suffix = rng.pick(nameParts.suffixes);
+    const modifier = rng.pick(nameParts.modifiers);
 
     const name = modifier
         ? `${prefix} ${sector} ${suffix} ${modifier}`
@@ -95,14 +42,23 @@ export function generateUnionName(rng: RNG): { name: string; sector: string } {
     return { name: name.trim(), sector };
 }
 
+/**
+ * Roll an inclusive stat range
+ * Fixed ranges ([n, n]) don't consume the RNG.
+ */
+function rollRange(rng: RNG, [min, max]: StatRange): number {
+    return min === max ? min : rng.nextInt(min, max);
+}
+
 /**
  * Generate union stats
  * 
- * Stats are inversely correlated to reflect the core satire:
+ * The archetypes of the run's rule set keep stats inversely correlated
+ * to reflect the core satire:
  * - High plausibility often means low integrity (paper unions)
  * - High integrity means harder to control (real workers)
  */
-export function generateUnionStats(rng: RNG): {
+export function generateUnionStats(rng: RNG, archetypes: UnionArchetype[]): {
     plausibility: number;
     loyalty: number;
     integrity: number;
@@ -110,78 +66,37 @@ export function generateUnionStats(rng: RNG): {
     tags: string[];
 } {
     // Roll base archetype
-    const archetype = rng.weightedPick(
-        ['shell', 'captured', 'authentic', 'volatile'],
-        [40, 30, 20, 10]
-    );
+    const archetype = rng.weightedPick(archetypes, archetypes.map(a => a.weight));
 
-    let plausibility: number;
-    let loyalty: number;
-    let integrity: number;
-    let maintenanceCost: number;
-    const tags: string[] = [archetype];
-
-    switch (archetype) {
-        case 'shell':
-            // Paper union: looks great, no workers
-            plausibility = rng.nextInt(70, 95);
-            loyalty = rng.nextInt(80, 100);
-            integrity = rng.nextInt(5, 20);
-            maintenanceCost = 0; // The Reform: Shells are free to keep
-            tags.push('compliant');
-            break;
-
-        case 'captured':
-            // Real workers, but controlled
-            plausibility = rng.nextInt(50, 75);
-            loyalty = rng.nextInt(60, 85);
-            integrity = rng.nextInt(30, 50);
-            maintenanceCost = 1; // Controlled unions are cheap
-            break;
-
-        case 'authentic':
-            // Actual worker representation - dangerous
-            plausibility = rng.nextInt(30, 60);
-            loyalty = rng.nextInt(20, 50);
-            integrity = rng.nextInt(70, 95);
-            maintenanceCost = rng.nextInt(3, 5);
-            tags.push('restless');
-            break;
-
-        case 'volatile':
-            // Unpredictable wildcard
-            plausibility = rng.nextInt(20, 80);
-            loyalty = rng.nextInt(10, 40);
-            integrity = rng.nextInt(40, 70);
-            maintenanceCost = rng.nextInt(2, 4);
-            tags.push('unpredictable');
-            break;
-
-        default:
-            // Fallback
-            plausibility = 50;
-            loyalty = 50;
-            integrity = 50;
-            maintenanceCost = 2;
-    }
-
-    return { plausibility, loyalty, integrity, maintenanceCost, tags };
+    return {
+        plausibility: rollRange(rng, archetype.plausibility),
+        loyalty: rollRange(rng, archetype.loyalty),
+        integrity: rollRange(rng, archetype.integrity),
+        maintenanceCost: rollRange(rng, archetype.maintenanceCost),
+        tags: [archetype.id, ...archetype.tags],
+    };
 }
 
 /**
  * Generate a complete new union entity
  */
-export function generateUnion(rngOrSeed: RNG | number): UnionEntity {
+export function generateUnion(
+    rngOrSeed: RNG | number,
+    id: string,
+    archetypes: UnionArchetype[],
+    nameParts: NameParts = NAME_PARTS
+): UnionEntity {
     const rng = typeof rngOrSeed === 'number' ? createRNG(rngOrSeed) : rngOrSeed;
 
-    const { name, sector } = generateUnionName(rng);
-    const stats = generateUnionStats(rng);
+    const { name, sector } = generateUnionName(rng, nameParts);
+    const stats = generateUnionStats(rng, archetypes);
 
     return {
-        id: generateId(),
+        id,
         name,
         sector,
         ...stats,
+        statuses: [],
         isIncubated: false,
         isLicensed: false,
         isCracked: false,
@@ -190,9 +105,19 @@ export function generateUnion(rngOrSeed: RNG | number): UnionEntity {
 
 /**
  * Generate multiple unions
+ * IDs are numbered from `firstCounter` upwards
  */
-export function generateUnions(rng: RNG, count: number): UnionEntity[] {
-    return Array.from({ length: count }, () => generateUnion(rng));
+export function generateUnions(
+    rng: RNG,
+    count: number,
+    firstCounter: number,
+    archetypes: UnionArchetype[],
+    nameParts: NameParts = NAME_PARTS
+): UnionEntity[] {
+    return Array.from(
+        { length: count },
+        (_, i) => generateUnion(rng, formatEntityId('union', firstCounter + i), archetypes, nameParts)
+    );
 }
 
 // ============================================
@@ -232,3 +157,23 @@ export function generateFederationName(
 
     return `${prefix} ${suffix}`;
 }
+
+/**
+ * Generate a new recognized federation from member unions
+ * Shell members make a federation visible from day one
+ */
+export function generateFederation(
+    rng: RNG,
+    unions: UnionEntity[],
+    id: string,
+    recognition: RecognitionRules
+): FederationEntity {
+    return {
+        id,
+        name: generateFederationName(rng, unions),
+        unionIds: unions.map(u => u.id),
+        delegates: 2, // THE CORE MECHANIC
+        recognition: 'recognized',
+        visibility: getInitialVisibility(unions.filter(isShellUnion).length, recognition),
+    };
+}
@@ -0,0 +1,72 @@
+/**
+ * Union name tables
+ *
+ * Kept in a module of their own so seed codes can use them without
+ * pulling in the generator.
+ */
+
+// ============================================
+// NAME PARTS (will move to JSON later)
+// ============================================
+
+/**
+ * Word tables for union names
+ * Seed codes (seedCode.ts) are built from the prefixes, sectors and
+ * suffixes by index: reordering them changes every shared code.
+ */
+export const NAME_PARTS = {
+    prefixes: [
+        'United',
+        'Democratic',
+        'Free',
+        'National',
+        'Workers\'',
+        'People\'s',
+        'Progressive',
+        'Independent',
+        'Sovereign',
+        'Authentic',
+        'Reformed',
+        'New',
+    ],
+    sectors: [
+        'Textile',
+        'Transport',
+        'Municipal',
+        'Agricultural',
+        'Hospitality',
+        'Construction',
+        'Maritime',
+        'Printing',
+        'Banking',
+        'Telecommunications',
+        'Postal',
+        'Railway',
+    ],
+    suffixes: [
+        'Federation',
+        'Syndicate',
+        'Brotherhood',
+        'Assembly',
+        'Council',
+        'Alliance',
+        'Union',
+        'Collective',
+        'Association',
+        'Movement',
+    ],
+    modifiers: [
+        'of Greater Beirut',
+        'of the North',
+        'of the South',
+        'of the Coast',
+        'of Mount Lebanon',
+        '(Reformed)',
+        '(Unified)',
+        '(Traditional)',
+        '(Modernized)',
+        '',
+        '',
+        '', // Empty strings for variety
+    ],
+};
@@ -0,0 +1,135 @@
+/**
+ * Federation recognition lifecycle
+ *
+ * The Ministry only counts delegates from recognized federations.
+ * Visibility tracks how closely a federation is being watched: shells
+ * and a high audit risk draw attention, quiet cycles let it fade. Shells
+ * piled into one sector, more than its workforce can hide, draw extra
+ * attention there (see engine/sectors.ts).
+ * Highly visible federations face a review each cycle and may be
+ * de-recognized, which removes their delegates until the player
+ * applies for recognition again.
+ */
+
+import type { FederationEntity, RunState } from './state';
+import { isShellUnion } from './state';
+import type { RNG } from './rng';
+import type { ResourceEffects } from './effects';
+import { applyFederationVisibility } from './effects';
+import type { RecognitionRules, RuleSet } from './rules';
+import { getShellCapacity } from './sectors';
+
+// ============================================
+// VISIBILITY
+// ============================================
+
+/** Count member unions that are shells on paper */
+export function getShellMemberCount(federation: FederationEntity, state: RunState): number {
+    return federation.unionIds
+        .map(id => state.unions[id])
+        .filter(u => u && isShellUnion(u))
+        .length;
+}
+
+/** Shells the federation holds beyond what each sector's workforce hides, by sector */
+export function getShellConcentration(federation: FederationEntity, state: RunState): Record<string, number> {
+    const shells: Record<string, number> = {};
+    for (const union of federation.unionIds.map(id => state.unions[id])) {
+        if (union && !union.isCracked && isShellUnion(union)) {
+            shells[union.sector] = (shells[union.sector] ?? 0) + 1;
+        }
+    }
+
+    const excess: Record<string, number> = {};
+    for (const [sector, count] of Object.entries(shells)) {
+        const economy = state.sectors[sector];
+        const over = economy ? count - getShellCapacity(economy, state.rules.economy) : 0;
+        if (over > 0) excess[sector] = over;
+    }
+    return excess;
+}
+
+/** Concentrated shells across all federations, by sector */
+export function getSectorConcentration(state: RunState): Record<string, number> {
+    const total: Record<string, number> = {};
+    for (const federation of Object.values(state.federations)) {
+        for (const [sector, over] of Object.entries(getShellConcentration(federation, state))) {
+            total[sector] = (total[sector] ?? 0) + over;
+        }
+    }
+    return total;
+}
+
+/** Visibility a new federation starts with */
+export function getInitialVisibility(shellCount: number, rules: RecognitionRules): number {
+    return Math.min(100, rules.baseVisibility + shellCount * rules.shellVisibility);
+}
+
+/**
+ * Visibility change for a federation at the end of a cycle
+ * Up per shell member, per step of audit risk and per concentrated
+ * shell; down by the quiet-cycle fade
+ */
+export function getVisibilityDrift(federation: FederationEntity, state: RunState): number {
+    const rules = state.rules.recognition;
+    const shellPressure = getShellMemberCount(federation, state) * rules.shellDrift;
+    const auditPressure = Math.floor(state.resources.auditRisk / rules.auditRiskPerDrift);
+    const concentrated = Object.values(getShellConcentration(federation, state)).reduce((sum, n) => sum + n, 0);
+    return shellPressure + auditPressure + concentrated * state.rules.economy.concentrationVisibility - rules.quietFade;
+}
+
+// ============================================
+// MINISTRY REVIEW
+// ============================================
+
+/**
+ * Chance (%) that a review strips a federation of recognition
+ * Zero below the review threshold
+ */
+export function getDerecognitionChance(federation: FederationEntity, state: RunState): number {
+    if (federation.recognition !== 'recognized') return 0;
+    if (federation.visibility < state.rules.recognition.reviewVisibility) return 0;
+    const { offset, auditRiskStep, max } = state.rules.formulas.derecognition;
+    return Math.min(max, federation.visibility - offset + Math.floor(state.resources.auditRisk / auditRiskStep));
+}
+
+/**
+ * Chance (%) that an application for re-recognition succeeds
+ * Quieter federations are easier to slip back onto the registry
+ */
+export function getRecognitionChance(federation: FederationEntity, rules: RuleSet): number {
+    const { base, min, max } = rules.formulas.recognition;
+    return Math.max(min, Math.min(max, base - federation.visibility));
+}
+
+/**
+ * Drift visibility and run Ministry reviews for every federation
+ * Returns updated federations and resource penalties
+ */
+export function processRecognitionReviews(
+    state: RunState,
+    rng: RNG
+): { federations: Record<string, FederationEntity>; penalties: ResourceEffects } {
+    const federations = { ...state.federations };
+    let legitimacyPenalty = 0;
+
+    for (const fedId of Object.keys(federations)) {
+        const drifted = applyFederationVisibility(
+            federations[fedId],
+            getVisibilityDrift(federations[fedId], state)
+        );
+
+        const chance = getDerecognitionChance(drifted, state);
+        if (chance > 0 && rng.nextInt(1, 100) <= chance) {
+            federations[fedId] = { ...drifted, recognition: 'unrecognized' };
+            legitimacyPenalty -= state.rules.recognition.derecognitionLegitimacyLoss;
+        } else {
+            federations[fedId] = drifted;
+        }
+    }
+
+    return {
+        federations,
+        penalties: { legitimacy: legitimacyPenalty },
+    };
+}
@@ -5,19 +5,41 @@
  * Pure function: (state, action) -> newState
  */
 
-import type { RunState, UnionEntity, FederationEntity } from './state';
-import { createInitialState, checkLoseCondition, getLicenseChance, getDissolveReward, getReassignReward } from './state';
+import type { RunState, RunSettings, UnionEntity, FederationEntity, CollapseTrigger, StatusTag } from './state';
+import { createInitialState, checkLoseCondition, getLicenseChance, getDissolveReward, getReassignReward, getUnionFederation, isShellUnion } from './state';
 import { createRNG } from './rng';
-import { generateUnion, generateFederationName } from './generator';
-import { applyResourceEffects, applyCycleEnd, type ResourceEffects } from './effects';
+import { generateUnions, generateFederation, formatEntityId } from './generator';
+import { applyResourceEffects, applyUnionEffects, applyCycleEnd, applyFederationVisibility, canAfford, type ResourceEffects } from './effects';
+import { enterElection, rollElection, applyDelegateEffects } from './election';
+import { canGoPublic, getFootnoteEvidence } from './evidence';
+import { getRecognitionChance } from './recognition';
+import { applyStatus, removeStatus, getStatus, getStreetHeatMultiplier } from './status';
+import { applyTargetedEffects } from './targets';
+import { applyFlagChanges } from './flags';
+import { canPay, payCost, type RuleSet } from './rules';
+import { getScenarioNameParts, type Scenario } from './scenario';
+import { concludeChapter, getDefeatEnding, openNextChapter, type Campaign } from './campaign';
+import { applyRivalEffects } from './rival';
+import { canBargain, bargainSwingSeat } from './council';
+import { applySectorEffects } from './sectors';
+import type { EventChoice } from '../content/types';
 
 // ============================================
 // ACTION TYPES
 // ============================================
 
 export type GameAction =
-    | { type: 'RUN_START'; seed?: number; showTips?: boolean }
+    | {
+        type: 'RUN_START';
+        seed?: number;
+        showTips?: boolean;
+        settings?: RunSettings;
+        rules?: RuleSet;
+        scenario?: Scenario | null;
+        campaign?: Campaign | null;
+    }
     | { type: 'RUN_RESET' }
+    | { type: 'RUN_RESTORE'; state: RunState }
     | { type: 'TURN_ADVANCE' }
     | { type: 'UNION_GENERATE'; count: number }
     | { type: 'UNION_LICENSE'; unionId: string }
@@ -25,62 +47,83 @@ export type GameAction =
     | { type: 'UNION_INCUBATE'; unionId: string; mode: 'paperwork' | 'discipline' }
     | { type: 'UNION_DISSOLVE'; unionId: string }
     | { type: 'UNION_REASSIGN'; unionId: string }
+    | { type: 'UNION_RESOLVE_STATUS'; unionId: string; tag: StatusTag }
     | { type: 'FEDERATION_CREATE'; unionIds: string[] }
+    | { type: 'FEDERATION_APPLY_RECOGNITION'; federationId: string }
+    | { type: 'FEDERATION_ADD_UNION'; federationId: string; unionId: string }
+    | { type: 'FEDERATION_EXPEL_UNION'; federationId: string; unionId: string }
+    | { type: 'FEDERATION_DISSOLVE'; federationId: string }
+    | { type: 'FEDERATION_MERGE'; federationId: string; targetId: string }
+    | { type: 'FEDERATION_SPLIT'; federationId: string; unionIds: string[] }
     | { type: 'EVENT_DRAW'; eventId: string }
-    | { type: 'EVENT_CHOOSE'; eventId: string; choiceId: string; effects: ResourceEffects; unlocks?: string[] }
+    | { type: 'EVENT_CHOOSE'; eventId: string; choice: EventChoice; targetUnionId?: string }
     | { type: 'EVENT_DISMISS' }
+    | { type: 'ELECTION_BARGAIN' }
     | { type: 'ELECTION_RESOLVE' }
+    | { type: 'CAMPAIGN_CONTINUE' }
+    | { type: 'GO_PUBLIC'; footnoteIds: string[] }
     | { type: 'TUTORIAL_DISMISS' }
     | { type: 'SET_PHASE'; phase: RunState['phase'] };
 
 // ============================================
-// ACTION COSTS
+// COLLAPSE
 // ============================================
 
-const COSTS = {
-    license: { paperwork: 1, patronage: 1 }, // Upfront licensing cost
-    incubate: { patronage: 2 },
-    generateUnions: { paperwork: 1 },
-    createFederation: { paperwork: 2, patronage: 3 }, // Expensive establishment
-} as const;
+/**
+ * End the run if a risk meter crossed its limit
+ * Records which meter, in which cycle, and what pushed it over.
+ * Returns null if the run survives.
+ */
+function checkCollapse(
+    state: RunState,
+    trigger: CollapseTrigger,
+    cycle: number = state.cycle
+): RunState | null {
+    const cause = checkLoseCondition(state);
+    if (!cause) return null;
+
+    return {
+        ...state,
+        phase: 'ended',
+        ending: getDefeatEnding(state),
+        collapse: { cause, cycle, trigger },
+    };
+}
 
 // ============================================
 // REDUCER
 // ============================================
 
 export function gameReducer(state: RunState, action: GameAction): RunState {
-    console.log('[Reducer] Action received:', action.type);
-    console.log('[Reducer] Current phase:', state.phase);
-
     switch (action.type) {
         // ----------------------------------------
         // RUN MANAGEMENT
         // ----------------------------------------
 
         case 'RUN_START': {
-            console.log('=== [Reducer] Processing RUN_START ===');
-            console.log('[Reducer] Seed:', action.seed, 'ShowTips:', action.showTips);
-            console.log('[Reducer] Creating initial state...');
-            const initialState = createInitialState(action.seed, action.showTips);
-            console.log('[Reducer] Initial state created:', {
-                phase: initialState.phase,
-                cycle: initialState.cycle,
-                maxCycles: initialState.maxCycles,
-                rngCursor: initialState.rngCursor
-            });
-            const newState = {
+            const initialState = createInitialState(
+                action.seed,
+                action.showTips,
+                action.settings,
+                action.rules,
+                action.scenario,
+                action.campaign
+            );
+            return {
                 ...initialState,
-                phase: 'playing' as const,
+                phase: 'playing',
             };
-            console.log('[Reducer] New state phase set to:', newState.phase);
-            console.log('[Reducer] Returning new state');
-            return newState;
         }
 
         case 'RUN_RESET': {
             return createInitialState();
         }
 
+        case 'RUN_RESTORE': {
+            // A saved run, already validated by persistence/
+            return action.state;
+        }
+
         // ----------------------------------------
         // TURN PROGRESSION
         // ----------------------------------------
@@ -88,24 +131,15 @@ export function gameReducer(state: RunState, action: GameAction): RunState {
         case 'TURN_ADVANCE': {
             // Check if we should trigger election
             if (state.cycle >= state.maxCycles) {
-                return {
-                    ...state,
-                    phase: 'election',
-                };
+                return enterElection(state);
             }
 
             // Apply end-of-cycle effects
             const newState = applyCycleEnd(state);
 
             // Check lose conditions after upkeep
-            const loseCondition = checkLoseCondition(newState);
-            if (loseCondition) {
-                return {
-                    ...newState,
-                    phase: 'ended',
-                    ending: 'collapse',
-                };
-            }
+            const collapsed = checkCollapse(newState, { kind: 'upkeep' }, state.cycle);
+            if (collapsed) return collapsed;
 
             return {
                 ...newState,
@@ -119,18 +153,20 @@ export function gameReducer(state: RunState, action: GameAction): RunState {
 
         case 'UNION_GENERATE': {
             // Check cost and limit
-            if (
-                state.resources.paperwork < COSTS.generateUnions.paperwork ||
-                state.unionsGeneratedInCycle
-            ) {
+            if (!canPay(state.resources, state.rules.costs.generateUnions) || state.unionsGeneratedInCycle) {
                 return state; // Can't afford or already done this cycle
             }
 
             const rng = createRNG(state.rngCursor);
             const newUnions: Record<string, UnionEntity> = { ...state.unions };
 
-            for (let i = 0; i < action.count; i++) {
-                const union = generateUnion(rng);
+            for (const union of generateUnions(
+                rng,
+                action.count,
+                state.nextEntityId,
+                state.rules.archetypes,
+                getScenarioNameParts(state.scenario)
+            )) {
                 newUnions[union.id] = union;
             }
 
@@ -138,10 +174,9 @@ export function gameReducer(state: RunState, action: GameAction): RunState {
                 ...state,
                 unions: newUnions,
                 rngCursor: rng.getCursor(),
+                nextEntityId: state.nextEntityId + action.count,
                 unionsGeneratedInCycle: true,
-                resources: applyResourceEffects(state.resources, {
-                    paperwork: -COSTS.generateUnions.paperwork,
-                }),
+                resources: applyResourceEffects(state, payCost(state.rules.costs.generateUnions)),
             };
         }
 
@@ -149,13 +184,13 @@ export function gameReducer(state: RunState, action: GameAction): RunState {
             const union = state.unions[action.unionId];
             if (!union || union.isLicensed || union.isCracked) return state;
 
-            if (state.resources.paperwork < COSTS.license.paperwork) {
+            if (!canPay(state.resources, state.rules.costs.license)) {
                 return state; // Can't afford
             }
 
             // Roll against license chance based on plausibility
             const rng = createRNG(state.rngCursor);
-            const licenseChance = getLicenseChance(union);
+            const licenseChance = getLicenseChance(union, state.rules);
             const roll = rng.nextInt(1, 100);
             const success = roll <= licenseChance;
 
@@ -169,21 +204,20 @@ export function gameReducer(state: RunState, action: GameAction): RunState {
                             isLicensed: true,
                         },
                     },
-                    resources: applyResourceEffects(state.resources, {
-                        paperwork: -COSTS.license.paperwork,
-                    }),
+                    resources: applyResourceEffects(state, payCost(state.rules.costs.license)),
                     rngCursor: rng.getCursor(),
                 };
             } else {
                 // License failed - lose paperwork AND gain audit risk
-                return {
+                const failedState: RunState = {
                     ...state,
-                    resources: applyResourceEffects(state.resources, {
-                        paperwork: -COSTS.license.paperwork,
-                        auditRisk: 3, // Suspicious file returned
+                    resources: applyResourceEffects(state, {
+                        ...payCost(state.rules.costs.license),
+                        auditRisk: state.rules.formulas.license.failAuditRisk, // Suspicious file returned
                     }),
                     rngCursor: rng.getCursor(),
                 };
+                return checkCollapse(failedState, { kind: 'action', action: action.type }) ?? failedState;
             }
         }
 
@@ -191,54 +225,47 @@ export function gameReducer(state: RunState, action: GameAction): RunState {
             const union = state.unions[action.unionId];
             if (!union || union.isIncubated || union.isCracked) return state;
 
-            if (state.resources.patronage < COSTS.incubate.patronage) {
+            if (!canPay(state.resources, state.rules.costs.incubate)) {
                 return state; // Can't afford
             }
 
             const mode = action.mode;
-            let updatedUnion: UnionEntity;
+            // Paperwork mode cleans the file, discipline mode tightens control
+            const incubation = state.rules.incubation[mode];
+            let updatedUnion: UnionEntity = {
+                ...applyUnionEffects(union, incubation),
+                isIncubated: true,
+                incubationMode: mode,
+            };
 
-            if (mode === 'paperwork') {
-                // Paperwork mode: Clean the file
-                // +plausibility, +integrity, -loyalty, +streetHeat
-                updatedUnion = {
-                    ...union,
-                    isIncubated: true,
-                    incubationMode: 'paperwork',
-                    plausibility: Math.min(100, union.plausibility + 15),
-                    integrity: Math.min(100, union.integrity + 10),
-                    loyalty: Math.max(0, union.loyalty - 10),
-                };
-            } else {
-                // Discipline mode: Tighten control
-                // +loyalty, +integrity, -plausibility
-                updatedUnion = {
-                    ...union,
-                    isIncubated: true,
-                    incubationMode: 'discipline',
-                    loyalty: Math.min(100, union.loyalty + 15),
-                    integrity: Math.min(100, union.integrity + 10),
-                    plausibility: Math.max(0, union.plausibility - 10),
-                };
+            // Real members don't take kindly to discipline
+            if (mode === 'discipline' && union.integrity >= state.rules.incubation.complaintIntegrityMin) {
+                updatedUnion = applyStatus(updatedUnion, 'COMPLAINT', state.rules);
             }
 
-            const resourceEffects: ResourceEffects = {
-                patronage: -COSTS.incubate.patronage,
-            };
+            const resourceEffects: ResourceEffects = payCost(state.rules.costs.incubate);
+
+            // Incubating stirs up street heat (real workers notice)
+            if (incubation.streetHeat !== 0) {
+                resourceEffects.streetHeat = incubation.streetHeat * getStreetHeatMultiplier(union, state.rules);
+            }
 
-            // Paperwork mode generates street heat (real workers notice)
             if (mode === 'paperwork') {
-                resourceEffects.streetHeat = 2;
+                // Restless members catch the attention of actual organizers
+                if (union.tags.includes('restless')) {
+                    updatedUnion = applyStatus(updatedUnion, 'RADICAL', state.rules);
+                }
             }
 
-            return {
+            const incubatedState: RunState = {
                 ...state,
                 unions: {
                     ...state.unions,
                     [action.unionId]: updatedUnion,
                 },
-                resources: applyResourceEffects(state.resources, resourceEffects),
+                resources: applyResourceEffects(state, resourceEffects),
             };
+            return checkCollapse(incubatedState, { kind: 'action', action: action.type }) ?? incubatedState;
         }
 
         case 'UNION_DISSOLVE': {
@@ -255,7 +282,7 @@ export function gameReducer(state: RunState, action: GameAction): RunState {
             }
 
             // Calculate reward
-            const paperworkReward = getDissolveReward(union);
+            const paperworkReward = getDissolveReward(union, state.rules);
 
             // Remove union and grant paperwork
             const { [action.unionId]: removed, ...remainingUnions } = state.unions;
@@ -263,7 +290,7 @@ export function gameReducer(state: RunState, action: GameAction): RunState {
             return {
                 ...state,
                 unions: remainingUnions,
-                resources: applyResourceEffects(state.resources, {
+                resources: applyResourceEffects(state, {
                     paperwork: paperworkReward,
                 }),
             };
@@ -283,7 +310,7 @@ export function gameReducer(state: RunState, action: GameAction): RunState {
             }
 
             // Calculate reward
-            const patronageReward = getReassignReward(union);
+            const patronageReward = getReassignReward(union, state.rules);
 
             // Remove union and grant patronage
             const { [action.unionId]: removed, ...remainingUnions } = state.unions;
@@ -291,12 +318,30 @@ export function gameReducer(state: RunState, action: GameAction): RunState {
             return {
                 ...state,
                 unions: remainingUnions,
-                resources: applyResourceEffects(state.resources, {
+                resources: applyResourceEffects(state, {
                     patronage: patronageReward,
                 }),
             };
         }
 
+        case 'UNION_RESOLVE_STATUS': {
+            const union = state.unions[action.unionId];
+            if (!union || union.isCracked || !getStatus(union, action.tag)) return state;
+
+            const resolution = state.rules.statuses[action.tag].resolve;
+            if (!resolution || !canAfford(state.resources, resolution)) return state;
+
+            const resolvedState: RunState = {
+                ...state,
+                unions: {
+                    ...state.unions,
+                    [action.unionId]: removeStatus(union, action.tag),
+                },
+                resources: applyResourceEffects(state, resolution),
+            };
+            return checkCollapse(resolvedState, { kind: 'action', action: action.type }) ?? resolvedState;
+        }
+
         // ----------------------------------------
         // FEDERATION ACTIONS
         // ----------------------------------------
@@ -322,39 +367,226 @@ export function gameReducer(state: RunState, action: GameAction): RunState {
             }
 
             // Check cost
-            if (
-                state.resources.paperwork < COSTS.createFederation.paperwork ||
-                state.resources.patronage < COSTS.createFederation.patronage
-            ) {
+            if (!canPay(state.resources, state.rules.costs.createFederation)) {
                 return state;
             }
 
             const rng = createRNG(state.rngCursor);
-            const name = generateFederationName(rng, unions);
-
-            const federation: FederationEntity = {
-                id: `fed_${Date.now()}`,
-                name,
-                unionIds: action.unionIds,
-                delegates: 2, // THE CORE MECHANIC
-                recognition: 'recognized',
-                visibility: 50,
-            };
+            const federation = generateFederation(rng, unions, formatEntityId('fed', state.nextEntityId), state.rules.recognition);
 
-            return {
+            const federatedState: RunState = {
                 ...state,
                 federations: {
                     ...state.federations,
                     [federation.id]: federation,
                 },
                 rngCursor: rng.getCursor(),
-                resources: applyResourceEffects(state.resources, {
-                    paperwork: -COSTS.createFederation.paperwork,
-                    patronage: -COSTS.createFederation.patronage,
+                nextEntityId: state.nextEntityId + 1,
+                resources: applyResourceEffects(state, {
+                    ...payCost(state.rules.costs.createFederation),
                     // Creating federations increases audit risk
-                    auditRisk: 5,
+                    auditRisk: state.rules.federation.createAuditRisk,
+                }),
+            };
+            return checkCollapse(federatedState, { kind: 'action', action: action.type }) ?? federatedState;
+        }
+
+        case 'FEDERATION_ADD_UNION': {
+            const federation = state.federations[action.federationId];
+            const union = state.unions[action.unionId];
+            if (!federation || !union) return state;
+            if (!union.isLicensed || union.isCracked) return state;
+            if (getUnionFederation(state, action.unionId)) return state;
+
+            if (!canPay(state.resources, state.rules.costs.addToFederation)) {
+                return state;
+            }
+
+            // Shells draw attention to whatever they join
+            const updatedFederation = applyFederationVisibility(
+                { ...federation, unionIds: [...federation.unionIds, action.unionId] },
+                isShellUnion(union) ? state.rules.recognition.shellVisibility : 0
+            );
+
+            const addedState: RunState = {
+                ...state,
+                federations: {
+                    ...state.federations,
+                    [federation.id]: updatedFederation,
+                },
+                resources: applyResourceEffects(state, {
+                    ...payCost(state.rules.costs.addToFederation),
+                    auditRisk: state.rules.federation.addAuditRisk,
+                }),
+            };
+            return checkCollapse(addedState, { kind: 'action', action: action.type }) ?? addedState;
+        }
+
+        case 'FEDERATION_EXPEL_UNION': {
+            const federation = state.federations[action.federationId];
+            if (!federation || !federation.unionIds.includes(action.unionId)) return state;
+
+            // A federation needs at least 2 members; dissolve it instead
+            if (federation.unionIds.length <= 2) return state;
+
+            if (!canPay(state.resources, state.rules.costs.expelFromFederation)) {
+                return state;
+            }
+
+            // Expelled members take their grievances to the press
+            const expelled = state.unions[action.unionId];
+            const expelledState: RunState = {
+                ...state,
+                unions: expelled
+                    ? { ...state.unions, [action.unionId]: applyStatus(expelled, 'COMPLAINT', state.rules) }
+                    : state.unions,
+                federations: {
+                    ...state.federations,
+                    [federation.id]: {
+                        ...federation,
+                        unionIds: federation.unionIds.filter(id => id !== action.unionId),
+                    },
+                },
+                resources: applyResourceEffects(state, {
+                    ...payCost(state.rules.costs.expelFromFederation),
+                    legitimacy: -state.rules.federation.expelLegitimacyLoss,
+                    auditRisk: state.rules.federation.expelAuditRisk,
+                }),
+            };
+            return checkCollapse(expelledState, { kind: 'action', action: action.type }) ?? expelledState;
+        }
+
+        case 'FEDERATION_DISSOLVE': {
+            const federation = state.federations[action.federationId];
+            if (!federation) return state;
+
+            if (!canPay(state.resources, state.rules.costs.dissolveFederation)) {
+                return state;
+            }
+
+            // Members return to the free pool; the registry notices the gap
+            const { [action.federationId]: dissolved, ...remainingFederations } = state.federations;
+
+            const dissolvedState: RunState = {
+                ...state,
+                federations: remainingFederations,
+                resources: applyResourceEffects(state, {
+                    ...payCost(state.rules.costs.dissolveFederation),
+                    legitimacy: -state.rules.federation.dissolveLegitimacyLoss,
+                    auditRisk: dissolved.recognition === 'recognized' ? state.rules.federation.dissolveAuditRisk : 0,
+                }),
+            };
+            return checkCollapse(dissolvedState, { kind: 'action', action: action.type }) ?? dissolvedState;
+        }
+
+        case 'FEDERATION_MERGE': {
+            if (action.federationId === action.targetId) return state;
+
+            const source = state.federations[action.federationId];
+            const target = state.federations[action.targetId];
+            if (!source || !target) return state;
+
+            if (!canPay(state.resources, state.rules.costs.mergeFederations)) {
+                return state;
+            }
+
+            // The target absorbs the source's members and its paper trail
+            const { [action.federationId]: merged, ...otherFederations } = state.federations;
+
+            const mergedState: RunState = {
+                ...state,
+                federations: {
+                    ...otherFederations,
+                    [target.id]: {
+                        ...target,
+                        unionIds: [...target.unionIds, ...merged.unionIds],
+                        visibility: Math.max(target.visibility, merged.visibility),
+                    },
+                },
+                resources: applyResourceEffects(state, {
+                    ...payCost(state.rules.costs.mergeFederations),
+                    auditRisk: state.rules.federation.mergeAuditRisk,
                 }),
             };
+            return checkCollapse(mergedState, { kind: 'action', action: action.type }) ?? mergedState;
+        }
+
+        case 'FEDERATION_SPLIT': {
+            const federation = state.federations[action.federationId];
+            if (!federation) return state;
+
+            // Split-off members must all come from this federation
+            const splitIds = [...new Set(action.unionIds)];
+            if (!splitIds.every(id => federation.unionIds.includes(id))) return state;
+
+            // Both halves need at least 2 members to keep their delegates
+            const remainingIds = federation.unionIds.filter(id => !splitIds.includes(id));
+            if (splitIds.length < 2 || remainingIds.length < 2) return state;
+
+            if (!canPay(state.resources, state.rules.costs.splitFederation)) {
+                return state;
+            }
+
+            const rng = createRNG(state.rngCursor);
+            const splitUnions = splitIds.map(id => state.unions[id]).filter(Boolean);
+            const offshoot = generateFederation(rng, splitUnions, formatEntityId('fed', state.nextEntityId), state.rules.recognition);
+
+            // Splitting to farm delegates is exactly what auditors look for
+            const splitState: RunState = {
+                ...state,
+                federations: {
+                    ...state.federations,
+                    [federation.id]: applyFederationVisibility(
+                        { ...federation, unionIds: remainingIds },
+                        state.rules.federation.splitVisibility
+                    ),
+                    // The offshoot inherits its parent's file
+                    [offshoot.id]: applyFederationVisibility(
+                        { ...offshoot, recognition: federation.recognition, visibility: federation.visibility },
+                        state.rules.federation.splitVisibility
+                    ),
+                },
+                rngCursor: rng.getCursor(),
+                nextEntityId: state.nextEntityId + 1,
+                resources: applyResourceEffects(state, {
+                    ...payCost(state.rules.costs.splitFederation),
+                    auditRisk: state.rules.federation.splitAuditRisk,
+                }),
+            };
+            return checkCollapse(splitState, { kind: 'action', action: action.type }) ?? splitState;
+        }
+
+        case 'FEDERATION_APPLY_RECOGNITION': {
+            const federation = state.federations[action.federationId];
+            if (!federation || federation.recognition === 'recognized') return state;
+
+            if (!canPay(state.resources, state.rules.costs.applyRecognition)) {
+                return state;
+            }
+
+            // Roll against recognition chance based on visibility
+            const rng = createRNG(state.rngCursor);
+            const success = rng.nextInt(1, 100) <= getRecognitionChance(federation, state.rules);
+
+            const { recognition } = state.rules;
+            const updatedFederation: FederationEntity = success
+                ? { ...applyFederationVisibility(federation, -recognition.grantedVisibility), recognition: 'recognized' }
+                : applyFederationVisibility(federation, recognition.rejectedVisibility);
+
+            const appliedState: RunState = {
+                ...state,
+                federations: {
+                    ...state.federations,
+                    [action.federationId]: updatedFederation,
+                },
+                rngCursor: rng.getCursor(),
+                resources: applyResourceEffects(state, {
+                    ...payCost(state.rules.costs.applyRecognition),
+                    // A rejected application puts the whole registry under a lamp
+                    auditRisk: success ? 0 : recognition.rejectedAuditRisk,
+                }),
+            };
+            return checkCollapse(appliedState, { kind: 'action', action: action.type }) ?? appliedState;
         }
 
         // ----------------------------------------
@@ -362,41 +594,107 @@ export function gameReducer(state: RunState, action: GameAction): RunState {
         // ----------------------------------------
 
         case 'EVENT_DRAW': {
+            // A drawn follow-up leaves the queue
+            const queueIndex = state.pendingEvents.findIndex(
+                p => p.eventId === action.eventId && p.dueCycle <= state.cycle
+            );
+
             return {
                 ...state,
                 phase: 'event',
                 currentEventId: action.eventId,
+                pendingEvents: queueIndex === -1
+                    ? state.pendingEvents
+                    : state.pendingEvents.filter((_, i) => i !== queueIndex),
             };
         }
 
         case 'EVENT_CHOOSE': {
+            const { choice } = action;
+
             // Apply effects
-            const newResources = applyResourceEffects(state.resources, action.effects);
+            const newResources = applyResourceEffects(state, choice.effects);
 
             // Add unlocked footnotes
-            const newUnlocks = action.unlocks
-                ? [...new Set([...state.unlockedFootnotes, ...action.unlocks])]
+            const newUnlocks = choice.unlocks
+                ? [...new Set([...state.unlockedFootnotes, ...choice.unlocks])]
                 : state.unlockedFootnotes;
 
+            // Gather evidence from the choice itself and from new footnotes
+            const evidenceGained = (choice.evidence ?? 0) + getFootnoteEvidence(state, choice.unlocks ?? []);
+
+            // Statuses land on random licensed unions
+            const rng = createRNG(state.rngCursor);
+            const newUnions = { ...state.unions };
+            for (const tag of choice.statuses ?? []) {
+                const candidates = Object.values(newUnions).filter(u => u.isLicensed && !u.isCracked);
+                if (candidates.length === 0) break;
+                const target = rng.pick(candidates);
+                newUnions[target.id] = applyStatus(target, tag, state.rules);
+            }
+
+            // Shift how closely every federation is being watched
+            const watchedFederations = choice.visibility
+                ? Object.fromEntries(
+                    Object.entries(state.federations).map(([id, f]) => [id, applyFederationVisibility(f, choice.visibility ?? 0)])
+                )
+                : state.federations;
+
+            // Effects aimed at specific unions and their federations
+            const targeted = applyTargetedEffects(
+                { ...state, unions: newUnions, federations: watchedFederations },
+                choice.targets ?? [],
+                rng,
+                action.targetUnionId
+            );
+
             // Create validation state (post-event, pre-upkeep)
             let intermediateState: RunState = {
                 ...state,
                 resources: newResources,
+                unions: targeted.unions,
+                federations: targeted.federations,
+                rngCursor: rng.getCursor(),
                 unlockedFootnotes: newUnlocks,
+                evidence: state.evidence + evidenceGained,
                 eventHistory: [...state.eventHistory, action.eventId],
+                choiceHistory: [
+                    ...state.choiceHistory,
+                    { eventId: action.eventId, choiceId: choice.id, cycle: state.cycle },
+                ],
+                pendingEvents: [
+                    ...state.pendingEvents,
+                    ...(choice.schedules ?? []).map(s => ({ eventId: s.eventId, dueCycle: state.cycle + s.delay })),
+                ],
+                flags: applyFlagChanges(state.flags, choice.setFlags, choice.incrementFlags),
+                sectors: choice.sectors ? applySectorEffects(state.sectors, choice.sectors) : state.sectors,
                 currentEventId: null,
             };
 
-            // Check if post-event state causes loss (e.g. Legitimacy hit)
-            let loseCondition = checkLoseCondition(intermediateState);
-            if (loseCondition) {
-                return {
-                    ...intermediateState,
-                    phase: 'ended',
-                    ending: 'collapse',
+            // Tilt the election (draws from the same RNG, so store the cursor again)
+            if (choice.delegates) {
+                intermediateState = {
+                    ...applyDelegateEffects(intermediateState, choice.delegates, rng),
+                    rngCursor: rng.getCursor(),
                 };
             }
 
+            // Moves against the rival hatchery, from the same RNG
+            if (choice.rival) {
+                intermediateState = {
+                    ...applyRivalEffects(intermediateState, choice.rival, rng),
+                    rngCursor: rng.getCursor(),
+                };
+            }
+
+            // Check if post-event state causes loss (e.g. Legitimacy hit)
+            const eventCollapse = checkCollapse(intermediateState, {
+                kind: 'event',
+                eventId: action.eventId,
+                choiceId: choice.id,
+            });
+            if (eventCollapse) return eventCollapse;
+
             // ================================================
             // TURN ADVANCEMENT (Merged from TURN_ADVANCE)
             // ================================================
@@ -404,24 +702,16 @@ export function gameReducer(state: RunState, action: GameAction): RunState {
             // 1. Check for Election (Max Cycles Reached)
             // If we are currently at max cycles, this event was the end of the last cycle.
             if (intermediateState.cycle >= intermediateState.maxCycles) {
-                return {
-                    ...intermediateState,
-                    phase: 'election',
-                };
+                return enterElection(intermediateState);
             }
 
             // 2. Apply Upkeep & Cycle Advance
+            const endingCycle = intermediateState.cycle;
             intermediateState = applyCycleEnd(intermediateState);
 
             // 3. Check Lose Conditions AGAIN (after upkeep effects like Audit Risk increase)
-            loseCondition = checkLoseCondition(intermediateState);
-            if (loseCondition) {
-                return {
-                    ...intermediateState,
-                    phase: 'ended',
-                    ending: 'collapse',
-                };
-            }
+            const upkeepCollapse = checkCollapse(intermediateState, { kind: 'upkeep' }, endingCycle);
+            if (upkeepCollapse) return upkeepCollapse;
 
             return {
                 ...intermediateState,
@@ -441,19 +731,59 @@ export function gameReducer(state: RunState, action: GameAction): RunState {
         // ELECTION
         // ----------------------------------------
 
+        case 'ELECTION_BARGAIN': {
+            if (!canBargain(state)) return state;
+            return bargainSwingSeat(state);
+        }
+
         case 'ELECTION_RESOLVE': {
-            // TODO: Implement proper election logic
-            // For now, simple delegate threshold
-            const totalDelegates = Object.values(state.federations)
-                .filter(f => f.recognition === 'recognized')
-                .reduce((sum, f) => sum + f.delegates, 0);
+            // Rolls are normally made on entering the election. Only roll
+            // here if the phase was forced without going through it.
+            const rng = createRNG(state.rngCursor);
+            const electionResult = state.electionResult ?? rollElection(state, rng);
+            const rolledState: RunState = { ...state, rngCursor: rng.getCursor() };
+
+            // A campaign election ends a chapter, not necessarily the run
+            if (state.campaign) {
+                return concludeChapter(rolledState, state.campaign, electionResult);
+            }
+
+            return {
+                ...rolledState,
+                electionResult,
+                phase: 'ended',
+                ending: electionResult.won ? 'capture' : 'collapse',
+            };
+        }
+
+        case 'CAMPAIGN_CONTINUE': {
+            if (state.phase !== 'interlude' || !state.campaign) return state;
+
+            // The months between congresses cost a cycle of upkeep, under the new chapter's rules
+            const upkeptState = applyCycleEnd(openNextChapter(state, state.campaign));
+            const collapsed = checkCollapse(upkeptState, { kind: 'upkeep' }, state.cycle);
+            if (collapsed) return collapsed;
+
+            return {
+                ...upkeptState,
+                cycle: 1,
+                phase: 'playing',
+            };
+        }
+
+        // ----------------------------------------
+        // WHISTLEBLOWER
+        // ----------------------------------------
 
-            const ending = totalDelegates >= 6 ? 'capture' : 'collapse';
+        case 'GO_PUBLIC': {
+            if (!canGoPublic(state)) return state;
 
+            // Releasing the dossier opens the whole archive
             return {
                 ...state,
                 phase: 'ended',
-                ending,
+                ending: 'whistleblower',
+                unlockedFootnotes: [...new Set([...state.unlockedFootnotes, ...action.footnoteIds])],
             };
         }
 
@@ -485,24 +815,50 @@ export function gameReducer(state: RunState, action: GameAction): RunState {
 // ============================================
 
 export const actions = {
-    startRun: (seed?: number, showTips: boolean = false): GameAction => ({ type: 'RUN_START', seed, showTips }),
+    startRun: (
+        seed?: number,
+        showTips: boolean = false,
+        settings?: RunSettings,
+        rules?: RuleSet,
+        scenario?: Scenario | null,
+        campaign?: Campaign | null
+    ): GameAction => ({
+        type: 'RUN_START',
+        seed,
+        showTips,
+        settings,
+        rules,
+        scenario,
+        campaign,
+    }),
     resetRun: (): GameAction => ({ type: 'RUN_RESET' }),
+    restoreRun: (state: RunState): GameAction => ({ type: 'RUN_RESTORE', state }),
     advanceTurn: (): GameAction => ({ type: 'TURN_ADVANCE' }),
     generateUnions: (count: number): GameAction => ({ type: 'UNION_GENERATE', count }),
     licenseUnion: (unionId: string): GameAction => ({ type: 'UNION_LICENSE', unionId }),
     incubateUnion: (unionId: string, mode: 'paperwork' | 'discipline'): GameAction => ({ type: 'UNION_INCUBATE', unionId, mode }),
     dissolveUnion: (unionId: string): GameAction => ({ type: 'UNION_DISSOLVE', unionId }),
     reassignUnion: (unionId: string): GameAction => ({ type: 'UNION_REASSIGN', unionId }),
+    resolveStatus: (unionId: string, tag: StatusTag): GameAction => ({ type: 'UNION_RESOLVE_STATUS', unionId, tag }),
     createFederation: (unionIds: string[]): GameAction => ({ type: 'FEDERATION_CREATE', unionIds }),
+    applyRecognition: (federationId: string): GameAction => ({ type: 'FEDERATION_APPLY_RECOGNITION', federationId }),
+    addToFederation: (federationId: string, unionId: string): GameAction => ({ type: 'FEDERATION_ADD_UNION', federationId, unionId }),
+    expelFromFederation: (federationId: string, unionId: string): GameAction => ({ type: 'FEDERATION_EXPEL_UNION', federationId, unionId }),
+    dissolveFederation: (federationId: string): GameAction => ({ type: 'FEDERATION_DISSOLVE', federationId }),
+    mergeFederations: (federationId: string, targetId: string): GameAction => ({ type: 'FEDERATION_MERGE', federationId, targetId }),
+    splitFederation: (federationId: string, unionIds: string[]): GameAction => ({ type: 'FEDERATION_SPLIT', federationId, unionIds }),
     drawEvent: (eventId: string): GameAction => ({ type: 'EVENT_DRAW', eventId }),
-    chooseEvent: (
-        eventId: string,
-        choiceId: string,
-        effects: ResourceEffects,
-        unlocks?: string[]
-    ): GameAction => ({ type: 'EVENT_CHOOSE', eventId, choiceId, effects, unlocks }),
+    chooseEvent: (eventId: string, choice: EventChoice, targetUnionId?: string): GameAction => ({
+        type: 'EVENT_CHOOSE',
+        eventId,
+        choice,
+        targetUnionId,
+    }),
     dismissEvent: (): GameAction => ({ type: 'EVENT_DISMISS' }),
+    bargain: (): GameAction => ({ type: 'ELECTION_BARGAIN' }),
     resolveElection: (): GameAction => ({ type: 'ELECTION_RESOLVE' }),
+    continueCampaign: (): GameAction => ({ type: 'CAMPAIGN_CONTINUE' }),
+    goPublic: (footnoteIds: string[]): GameAction => ({ type: 'GO_PUBLIC', footnoteIds }),
     dismissTutorial: (): GameAction => ({ type: 'TUTORIAL_DISMISS' }),
     setPhase: (phase: RunState['phase']): GameAction => ({ type: 'SET_PHASE', phase }),
 };
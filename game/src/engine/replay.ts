@@ -0,0 +1,102 @@
+/**
+ * Action log replays
+ *
+ * A replay is the run's seed plus every action dispatched since
+ * RUN_START. Because gameReducer is pure and every random draw comes
+ * from the run's RNG cursor, folding the actions over the initial state
+ * rebuilds the run exactly, in the browser or in Node.
+ *
+ * UNDO steps are recorded too and played back through the undo reducer.
+ *
+ * EVENT_CHOOSE carries the whole choice, so a replay still plays back
+ * after the event deck changes; the content version is recorded so a
+ * viewer can warn when it differs.
+ */
+
+import { z } from 'zod';
+import type { RunState } from './state';
+import { createInitialState } from './state';
+import { createUndoState, undoableReducer, type UndoAction } from './undo';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Bumped when the replay file layout changes */
+export const REPLAY_FORMAT = 1;
+
+export type ReplayFile = {
+    format: typeof REPLAY_FORMAT;
+    seed: number;
+    /** Content version the run was played against */
+    contentVersion: string;
+    /** Every action from RUN_START onwards, in dispatch order */
+    actions: UndoAction[];
+};
+
+const ReplayFileSchema = z.object({
+    format: z.literal(REPLAY_FORMAT),
+    seed: z.number().int(),
+    contentVersion: z.string().min(1),
+    actions: z.array(z.looseObject({ type: z.string().min(1) })).min(1),
+});
+
+// ============================================
+// RECORDING
+// ============================================
+
+export function createReplay(seed: number, contentVersion: string, actions: UndoAction[]): ReplayFile {
+    return { format: REPLAY_FORMAT, seed, contentVersion, actions };
+}
+
+/**
+ * Validate a parsed replay file
+ * Throws with a readable message if the file is not a replay
+ */
+export function parseReplay(data: unknown): ReplayFile {
+    const result = ReplayFileSchema.safeParse(data);
+    if (!result.success) {
+        throw new Error(`Invalid replay file: ${result.error.issues.map(i => i.message).join(', ')}`);
+    }
+    if (result.data.actions[0].type !== 'RUN_START') {
+        throw new Error('Invalid replay file: the first action must be RUN_START');
+    }
+    return result.data as ReplayFile;
+}
+
+// ============================================
+// PLAYBACK
+// ============================================
+
+/**
+ * Rebuild every intermediate state of a run
+ * states[0] is the menu state; states[i] is the state after actions[i - 1]
+ */
+export function replayStates(replay: ReplayFile): RunState[] {
+    let history = createUndoState(createInitialState(replay.seed));
+    const states: RunState[] = [history.present];
+    for (const action of replay.actions) {
+        history = undoableReducer(history, action);
+        states.push(history.present);
+    }
+    return states;
+}
+
+/** Rebuild only the final state of a run */
+export function replayRun(replay: ReplayFile): RunState {
+    return replay.actions.reduce(undoableReducer, createUndoState(createInitialState(replay.seed))).present;
+}
+
+/** One-line description of an action for step lists */
+export function describeAction(action: UndoAction): string {
+    const details = Object.entries(action)
+        .filter(([key, value]) => key !== 'type' && value !== undefined)
+        .map(([key, value]) => {
+            // Event choices carry the whole choice; its ID is enough
+            if (key === 'choice' && value && typeof value === 'object' && 'id' in value) {
+                return `choice=${String(value.id)}`;
+            }
+            return `${key}=${Array.isArray(value) ? value.join('+') : String(value)}`;
+        });
+    return details.length > 0 ? `${action.type} ${details.join(' ')}` : action.type;
+}
@@ -0,0 +1,179 @@
+/**
+ * Rival hatchery
+ *
+ * An opposition faction running the same operation as the player: each
+ * cycle it generates unions with the same generator and archetypes,
+ * licenses them under the same formulas, bundles them into federations
+ * and applies for recognition. It plays off the player's trouble: high
+ * Street Heat sends it extra recruits, high Audit Risk makes the
+ * Ministry fast-track its paperwork.
+ *
+ * On Election Night its recognized federations are rolled like the
+ * player's and its delegates contest the same council seats: the player
+ * has to hold more seats than it as well as a majority. Events can
+ * sabotage its federations or poach its unions.
+ *
+ * The rival only exists when the run's settings ask for it, and it
+ * draws from the run's RNG after the player's upkeep rolls.
+ */
+
+import type { RunState, UnionEntity, FederationEntity } from './state';
+import { getCrackRisk, getLicenseChance } from './state';
+import type { RNG } from './rng';
+import { generateUnions, generateFederation, formatEntityId } from './generator';
+import { getRecognitionChance } from './recognition';
+import { getScenarioNameParts } from './scenario';
+import type { RivalEffects } from '../content/types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RivalState = {
+    /** Rival unions (keyed by id, from the same ID counter as the player's) */
+    unions: Record<string, UnionEntity>;
+    /** Rival federations (keyed by id) */
+    federations: Record<string, FederationEntity>;
+};
+
+/** Shown wherever the rival is named */
+export const RIVAL_NAME = 'The Bureau of Authentic Representation';
+
+// ============================================
+// SELECTORS
+// ============================================
+
+/** Delegates of the rival's recognized federations */
+export function getRivalDelegates(rival: RivalState): number {
+    return Object.values(rival.federations)
+        .filter(f => f.recognition === 'recognized')
+        .reduce((sum, f) => sum + f.delegates, 0);
+}
+
+/** Licensed rival unions not yet in a federation */
+function getFreeRivalUnions(rival: RivalState): UnionEntity[] {
+    const federated = new Set(Object.values(rival.federations).flatMap(f => f.unionIds));
+    return Object.values(rival.unions).filter(u => u.isLicensed && !u.isCracked && !federated.has(u.id));
+}
+
+/** Drop a union from the rival's federations; federations left with fewer than 2 members are dissolved */
+function removeFromRivalFederations(
+    federations: Record<string, FederationEntity>,
+    unionId: string
+): Record<string, FederationEntity> {
+    const updated: Record<string, FederationEntity> = {};
+    for (const [id, federation] of Object.entries(federations)) {
+        const unionIds = federation.unionIds.filter(uid => uid !== unionId);
+        if (unionIds.length >= 2) updated[id] = { ...federation, unionIds };
+    }
+    return updated;
+}
+
+// ============================================
+// RIVAL CYCLE
+// ============================================
+
+/**
+ * Play the rival's cycle
+ * Cracks, recruits, licenses, federates and applies for recognition,
+ * reacting to the player's meters as they stood during the cycle.
+ * Returns the updated rival and ID counter
+ */
+export function runRivalCycle(state: RunState, rng: RNG): { rival: RivalState | null; nextEntityId: number } {
+    if (!state.rival) return { rival: null, nextEntityId: state.nextEntityId };
+
+    const { rules } = state;
+    const unions = { ...state.rival.unions };
+    let federations = state.rival.federations;
+    let nextEntityId = state.nextEntityId;
+
+    // Licensed unions crack like the player's, and walk out of their federation
+    for (const union of Object.values(unions)) {
+        if (union.isCracked || !union.isLicensed) continue;
+        if (rng.nextInt(1, 100) <= getCrackRisk(union, rules, state.sectors)) {
+            unions[union.id] = { ...union, isCracked: true, isLicensed: false };
+            federations = removeFromRivalFederations(federations, union.id);
+        }
+    }
+
+    // Recruit, with extra unions while the player's streets are hot
+    const surge = state.resources.streetHeat >= rules.rival.streetHeatSurge ? rules.rival.surgeUnions : 0;
+    const recruits = generateUnions(
+        rng,
+        rules.rival.unionsPerCycle + surge,
+        nextEntityId,
+        rules.archetypes,
+        getScenarioNameParts(state.scenario)
+    );
+    nextEntityId += recruits.length;
+    for (const union of recruits) {
+        unions[union.id] = union;
+    }
+
+    // Every unlicensed union applies for a license each cycle
+    for (const union of Object.values(unions)) {
+        if (union.isCracked || union.isLicensed) continue;
+        if (rng.nextInt(1, 100) <= getLicenseChance(union, rules)) {
+            unions[union.id] = { ...union, isLicensed: true };
+        }
+    }
+
+    // Bundle free licensed unions into new federations, which start unrecognized
+    let free = getFreeRivalUnions({ unions, federations });
+    while (free.length >= rules.rival.federationSize) {
+        const members = free.slice(0, rules.rival.federationSize);
+        const id = formatEntityId('fed', nextEntityId++);
+        federations = { ...federations, [id]: { ...generateFederation(rng, members, id, rules.recognition), recognition: 'unrecognized' } };
+        free = free.slice(rules.rival.federationSize);
+    }
+
+    // Apply for recognition; the Ministry hedges its bets while the player is under audit
+    const bonus = state.resources.auditRisk >= rules.rival.auditRiskSurge ? rules.rival.recognitionBonus : 0;
+    federations = { ...federations };
+    for (const federation of Object.values(federations)) {
+        if (federation.recognition === 'recognized') continue;
+        if (rng.nextInt(1, 100) <= getRecognitionChance(federation, rules) + bonus) {
+            federations[federation.id] = { ...federation, recognition: 'recognized' };
+        }
+    }
+
+    return { rival: { unions, federations }, nextEntityId };
+}
+
+// ============================================
+// EVENT EFFECTS
+// ============================================
+
+/**
+ * Apply an event's moves against the rival
+ * Sabotage strips one random recognized rival federation of recognition;
+ * poaching brings one random licensed rival union onto the player's
+ * registry, licensed and out of any federation.
+ */
+export function applyRivalEffects(state: RunState, effects: RivalEffects, rng: RNG): RunState {
+    if (!state.rival) return state;
+
+    let { unions, federations } = state.rival;
+    let playerUnions = state.unions;
+
+    if (effects.sabotage) {
+        const candidates = Object.values(federations).filter(f => f.recognition === 'recognized');
+        if (candidates.length > 0) {
+            const target = rng.pick(candidates);
+            federations = { ...federations, [target.id]: { ...target, recognition: 'unrecognized' } };
+        }
+    }
+
+    if (effects.poach) {
+        const candidates = Object.values(unions).filter(u => u.isLicensed && !u.isCracked);
+        if (candidates.length > 0) {
+            const target = rng.pick(candidates);
+            unions = { ...unions };
+            delete unions[target.id];
+            federations = removeFromRivalFederations(federations, target.id);
+            playerUnions = { ...playerUnions, [target.id]: target };
+        }
+    }
+
+    return { ...state, unions: playerUnions, rival: { unions, federations } };
+}
@@ -0,0 +1,416 @@
+/**
+ * Rule sets
+ *
+ * Every tunable number of a run (starting resources, resource caps,
+ * action costs and side effects, upkeep, the license and crack formulas,
+ * incubation, union statuses, union archetypes, federation recognition,
+ * evidence, the rival hatchery, the labor council and the sector economy)
+ * lives in a RuleSet.
+ * The presets are content, loaded from rules.v1.json. The rule set is
+ * chosen at RUN_START and stored in RunState, so a save or a replay
+ * always plays back under the rules it was started with.
+ */
+
+import type { Resources, StatusTag } from './state';
+import type { ResourceEffects, UnionStatEffects } from './effects';
+import type { SectorState } from './sectors';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Resource cost of one action (only paperwork and patronage are spent) */
+export type ActionCost = {
+    paperwork: number;
+    patronage: number;
+};
+
+export type ActionCosts = {
+    license: ActionCost;
+    incubate: ActionCost;
+    generateUnions: ActionCost;
+    createFederation: ActionCost;
+    applyRecognition: ActionCost;
+    addToFederation: ActionCost;
+    expelFromFederation: ActionCost;
+    dissolveFederation: ActionCost;
+    mergeFederations: ActionCost;
+    splitFederation: ActionCost;
+};
+
+export type UpkeepRules = {
+    /** Paperwork the office refills to at the end of every cycle */
+    paperworkRefresh: number;
+    /** Patronage income before the per-delegate bonus */
+    basePatronageIncome: number;
+    /** One Audit Risk per this many unions on the registry */
+    unionsPerAuditRisk: number;
+    /** Street Heat that cools off every cycle */
+    streetHeatCooling: number;
+    /** Shells tolerated before each extra one costs Legitimacy */
+    shellAllowance: number;
+    /** Loyalty lost by a union whose maintenance goes unpaid */
+    unpaidLoyaltyLoss: number;
+    /** Unpaid unions at or below this loyalty defect instead of waiting */
+    defectionLoyalty: number;
+    /** Legitimacy lost per defection */
+    defectionLegitimacyLoss: number;
+    /** Legitimacy lost per union that cracks */
+    crackLegitimacyLoss: number;
+    /** Audit Risk per union that cracks */
+    crackAuditRisk: number;
+};
+
+/** Side effects of managing federations, on top of their costs */
+export type FederationRules = {
+    /** Audit Risk for registering a federation */
+    createAuditRisk: number;
+    /** Audit Risk per member added */
+    addAuditRisk: number;
+    /** Legitimacy lost per member expelled */
+    expelLegitimacyLoss: number;
+    /** Audit Risk per member expelled */
+    expelAuditRisk: number;
+    /** Legitimacy lost for dissolving a federation */
+    dissolveLegitimacyLoss: number;
+    /** Audit Risk for dissolving a recognized federation */
+    dissolveAuditRisk: number;
+    /** Audit Risk for merging two federations */
+    mergeAuditRisk: number;
+    /** Visibility both halves of a split gain */
+    splitVisibility: number;
+    /** Audit Risk for splitting a federation */
+    splitAuditRisk: number;
+};
+
+/** How the Ministry watches federations (see engine/recognition.ts) */
+export type RecognitionRules = {
+    /** Visibility of a freshly registered federation with no shells */
+    baseVisibility: number;
+    /** Visibility per shell member, on registration or joining */
+    shellVisibility: number;
+    /** Visibility from which the Ministry reviews a federation every cycle */
+    reviewVisibility: number;
+    /** Legitimacy lost when a federation is struck from the registry */
+    derecognitionLegitimacyLoss: number;
+    /** Visibility drift per shell member per cycle */
+    shellDrift: number;
+    /** One visibility per cycle for every this much Audit Risk */
+    auditRiskPerDrift: number;
+    /** Visibility that fades in a quiet cycle */
+    quietFade: number;
+    /** Visibility shed when an application is granted */
+    grantedVisibility: number;
+    /** Visibility gained when an application is rejected */
+    rejectedVisibility: number;
+    /** Audit Risk when an application is rejected */
+    rejectedAuditRisk: number;
+};
+
+/** The whistleblower ending (see engine/evidence.ts) */
+export type EvidenceRules = {
+    /** Evidence needed before the press will take the dossier seriously */
+    required: number;
+    /** Integrity at which a union's members start leaking documents */
+    leakIntegrityMin: number;
+    /** Evidence per newly unlocked footnote */
+    perFootnote: number;
+};
+
+export type FormulaRules = {
+    /** License chance: base + floor(plausibility * perPlausibility), at most max */
+    license: { base: number; perPlausibility: number; max: number; failAuditRisk: number };
+    /** Crack risk per cycle: base - floor(integrity * perIntegrity), at least min; times strainedMultiplier for unions under strain */
+    crack: { base: number; perIntegrity: number; min: number; strainedMultiplier: number };
+    /** Review strike-off chance: visibility - offset + floor(auditRisk / auditRiskStep), at most max */
+    derecognition: { offset: number; auditRiskStep: number; max: number };
+    /** Application chance: base - visibility, between min and max */
+    recognition: { base: number; min: number; max: number };
+    /** Paperwork for dissolving: base + 1 per `step` plausibility */
+    dissolveReward: { base: number; step: number };
+    /** Patronage for reassigning: base + 1 per `step` loyalty */
+    reassignReward: { base: number; step: number };
+};
+
+/** Stat changes of one incubation mode, and the Street Heat it stirs up */
+export type IncubationMode = {
+    plausibility: number;
+    loyalty: number;
+    integrity: number;
+    streetHeat: number;
+};
+
+export type IncubationRules = {
+    paperwork: IncubationMode;
+    discipline: IncubationMode;
+    /** Integrity at which disciplined members file a formal complaint */
+    complaintIntegrityMin: number;
+};
+
+/** The numbers of one union status (its label and stacking rule live in engine/status.ts) */
+export type StatusBalance = {
+    /** Cycles the status lasts; null means until resolved */
+    duration: number | null;
+    maxStacks: number;
+    /** Resource effects per stack at the end of every cycle */
+    perCycle: ResourceEffects;
+    /** Stat changes to the union per stack at the end of every cycle */
+    unionPerCycle?: UnionStatEffects;
+    /** Multiplier on Street Heat generated by actions on this union */
+    streetHeatMultiplier?: number;
+    /** Resource effects of resolving it by hand; omitted if it must run its course */
+    resolve?: ResourceEffects;
+};
+
+/** Inclusive [min, max] roll */
+export type StatRange = [number, number];
+
+/** A kind of union the generator rolls, weighted against the others */
+export type UnionArchetype = {
+    /** Also the union's first tag */
+    id: string;
+    weight: number;
+    plausibility: StatRange;
+    loyalty: StatRange;
+    integrity: StatRange;
+    maintenanceCost: StatRange;
+    /** Tags added after the archetype tag */
+    tags: string[];
+};
+
+/** How the rival hatchery plays (see engine/rival.ts) */
+export type RivalRules = {
+    /** Unions the rival generates every cycle */
+    unionsPerCycle: number;
+    /** Licensed unions the rival bundles into each new federation */
+    federationSize: number;
+    /** Player Street Heat from which the rival recruits extra unions */
+    streetHeatSurge: number;
+    /** Extra unions per cycle while the player is over the Street Heat surge */
+    surgeUnions: number;
+    /** Player Audit Risk from which the Ministry fast-tracks rival recognition */
+    auditRiskSurge: number;
+    /** Recognition chance added while the player is over the Audit Risk surge */
+    recognitionBonus: number;
+};
+
+/** Make-up of the labor council and the price of its swing seats (see engine/council.ts) */
+export type CouncilRules = {
+    /** Seats on the council; a majority is more than half of them */
+    seats: number;
+    /** Seats reserved for unions of a sector, by sector name */
+    sectorSeats: Record<string, number>;
+    /** Seats held by uncommitted independents */
+    independentSeats: number;
+    /** Patronage for the first swing delegate won over after the vote */
+    swingCost: number;
+    /** Added to the price of every further swing delegate */
+    swingCostStep: number;
+};
+
+/** How the sector economy moves and feeds back into unions (see engine/sectors.ts) */
+export type EconomyRules = {
+    /** Opening state of every sector */
+    start: SectorState;
+    /** Opening state of particular sectors, over `start` */
+    sectorStart: Record<string, Partial<SectorState>>;
+    /** Health every sector recovers toward */
+    healthBaseline: number;
+    /** Health regained (or lost, above the baseline) per cycle */
+    healthRecovery: number;
+    /** Unrest per cycle for every point of health below the baseline */
+    unrestPerDistress: number;
+    /** Unrest lost per cycle */
+    unrestCooling: number;
+    /** Crack risk added per point of unrest in the union's sector */
+    crackPerUnrest: number;
+    /** Employer strength from which unions in the sector lose loyalty */
+    employerPressure: number;
+    /** Loyalty lost per cycle under employer pressure */
+    employerLoyaltyLoss: number;
+    /** Workforce (thousands) that hides one shell per federation */
+    workforcePerShell: number;
+    /** Unrest per cycle for every shell beyond what the sector hides */
+    concentrationUnrest: number;
+    /** Federation visibility per cycle for every such shell */
+    concentrationVisibility: number;
+};
+
+export type RuleSet = {
+    id: string;
+    label: string;
+    description: string;
+    startingResources: Resources;
+    /** Upper bound of every resource (all resources floor at 0) */
+    resourceCaps: Resources;
+    costs: ActionCosts;
+    upkeep: UpkeepRules;
+    federation: FederationRules;
+    recognition: RecognitionRules;
+    evidence: EvidenceRules;
+    formulas: FormulaRules;
+    incubation: IncubationRules;
+    statuses: Record<StatusTag, StatusBalance>;
+    archetypes: UnionArchetype[];
+    rival: RivalRules;
+    council: CouncilRules;
+    economy: EconomyRules;
+    maxCycles: number;
+};
+
+// ============================================
+// LEGACY RULES
+// ============================================
+
+/**
+ * The rules every run used before rule sets became content
+ * Frozen: replays recorded without a rule set and old saves play back
+ * under them, and they fill the menu state before content has loaded.
+ * Retune the presets in rules.v1.json, never these.
+ */
+export const LEGACY_RULES: RuleSet = {
+    id: 'normal',
+    label: 'Normal',
+    description: 'The Ministry as designed: slow, venal and occasionally inattentive.',
+    startingResources: { paperwork: 3, patronage: 5, legitimacy: 70, auditRisk: 10, streetHeat: 5 },
+    resourceCaps: { paperwork: 10, patronage: 20, legitimacy: 100, auditRisk: 100, streetHeat: 100 },
+    costs: {
+        // Licensing only files paperwork; patronage is paid on incubation
+        license: { paperwork: 1, patronage: 0 },
+        incubate: { paperwork: 0, patronage: 2 },
+        generateUnions: { paperwork: 1, patronage: 0 },
+        createFederation: { paperwork: 2, patronage: 3 },
+        applyRecognition: { paperwork: 2, patronage: 2 },
+        addToFederation: { paperwork: 1, patronage: 0 },
+        expelFromFederation: { paperwork: 0, patronage: 1 },
+        dissolveFederation: { paperwork: 1, patronage: 0 },
+        mergeFederations: { paperwork: 2, patronage: 1 },
+        splitFederation: { paperwork: 2, patronage: 2 },
+    },
+    upkeep: {
+        paperworkRefresh: 6,
+        basePatronageIncome: 7,
+        unionsPerAuditRisk: 5,
+        streetHeatCooling: 2,
+        shellAllowance: 2,
+        unpaidLoyaltyLoss: 10,
+        defectionLoyalty: 20,
+        defectionLegitimacyLoss: 2,
+        crackLegitimacyLoss: 2,
+        crackAuditRisk: 2,
+    },
+    federation: {
+        createAuditRisk: 5,
+        addAuditRisk: 1,
+        expelLegitimacyLoss: 2,
+        expelAuditRisk: 1,
+        dissolveLegitimacyLoss: 3,
+        dissolveAuditRisk: 3,
+        mergeAuditRisk: 2,
+        splitVisibility: 15,
+        splitAuditRisk: 8,
+    },
+    recognition: {
+        baseVisibility: 30,
+        shellVisibility: 10,
+        reviewVisibility: 60,
+        derecognitionLegitimacyLoss: 5,
+        shellDrift: 4,
+        auditRiskPerDrift: 20,
+        quietFade: 3,
+        grantedVisibility: 10,
+        rejectedVisibility: 5,
+        rejectedAuditRisk: 5,
+    },
+    evidence: {
+        required: 8,
+        leakIntegrityMin: 70,
+        perFootnote: 1,
+    },
+    formulas: {
+        license: { base: 30, perPlausibility: 0.6, max: 95, failAuditRisk: 3 },
+        crack: { base: 40, perIntegrity: 0.35, min: 5, strainedMultiplier: 2 },
+        derecognition: { offset: 50, auditRiskStep: 4, max: 90 },
+        recognition: { base: 90, min: 10, max: 90 },
+        dissolveReward: { base: 1, step: 30 },
+        reassignReward: { base: 1, step: 25 },
+    },
+    incubation: {
+        paperwork: { plausibility: 15, loyalty: -10, integrity: 10, streetHeat: 2 },
+        discipline: { plausibility: -10, loyalty: 15, integrity: 10, streetHeat: 0 },
+        complaintIntegrityMin: 60,
+    },
+    statuses: {
+        COMPLAINT: { duration: null, maxStacks: 3, perCycle: { auditRisk: 2 }, resolve: { patronage: -2 } },
+        RADICAL: {
+            duration: 3,
+            maxStacks: 1,
+            perCycle: { streetHeat: 2 },
+            unionPerCycle: { loyalty: -3 },
+            streetHeatMultiplier: 2,
+            resolve: { paperwork: -2, legitimacy: -3 },
+        },
+        SCANDAL: { duration: 2, maxStacks: 1, perCycle: { legitimacy: -2 }, unionPerCycle: { plausibility: -5 } },
+    },
+    archetypes: [
+        { id: 'shell', weight: 40, plausibility: [70, 95], loyalty: [80, 100], integrity: [5, 20], maintenanceCost: [0, 0], tags: ['compliant'] },
+        { id: 'captured', weight: 30, plausibility: [50, 75], loyalty: [60, 85], integrity: [30, 50], maintenanceCost: [1, 1], tags: [] },
+        { id: 'authentic', weight: 20, plausibility: [30, 60], loyalty: [20, 50], integrity: [70, 95], maintenanceCost: [3, 5], tags: ['restless'] },
+        { id: 'volatile', weight: 10, plausibility: [20, 80], loyalty: [10, 40], integrity: [40, 70], maintenanceCost: [2, 4], tags: ['unpredictable'] },
+    ],
+    rival: {
+        unionsPerCycle: 3,
+        federationSize: 2,
+        streetHeatSurge: 40,
+        surgeUnions: 1,
+        auditRiskSurge: 40,
+        recognitionBonus: 30,
+    },
+    // Eleven general seats: a majority of six secured delegates, as before the council
+    council: {
+        seats: 11,
+        sectorSeats: {},
+        independentSeats: 0,
+        swingCost: 4,
+        swingCostStep: 2,
+    },
+    // A still economy that never touches the unions, as before sectors had one
+    economy: {
+        start: { workforce: 40, unrest: 20, employerStrength: 50, health: 50 },
+        sectorStart: {},
+        healthBaseline: 50,
+        healthRecovery: 5,
+        unrestPerDistress: 0.2,
+        unrestCooling: 0,
+        crackPerUnrest: 0,
+        employerPressure: 70,
+        employerLoyaltyLoss: 0,
+        workforcePerShell: 20,
+        concentrationUnrest: 0,
+        concentrationVisibility: 0,
+    },
+    maxCycles: 5,
+};
+
+// ============================================
+// COSTS
+// ============================================
+
+/** Whether the resources cover an action's cost `times` over */
+export function canPay(resources: Resources, cost: ActionCost, times: number = 1): boolean {
+    return resources.paperwork >= cost.paperwork * times &&
+        resources.patronage >= cost.patronage * times;
+}
+
+/** Resource deltas that pay an action's cost */
+export function payCost(cost: ActionCost): Partial<Resources> {
+    return { paperwork: -cost.paperwork, patronage: -cost.patronage };
+}
+
+/** Short label for tooltips, e.g. "-2 Paperwork, -3 Patronage" */
+export function formatCost(cost: ActionCost): string {
+    const parts: string[] = [];
+    if (cost.paperwork) parts.push(`-${cost.paperwork} Paperwork`);
+    if (cost.patronage) parts.push(`-${cost.patronage} Patronage`);
+    return parts.length > 0 ? parts.join(', ') : 'free';
+}
@@ -0,0 +1,84 @@
+/**
+ * Scenario packs
+ *
+ * A scenario sets a run in a historical era: it adjusts the starting
+ * resources and cycle count, reweights the event deck and adds era
+ * flavor to union names. Scenarios are content (scenarios.v1.json).
+ * Like the rule set, the scenario picked at RUN_START is stored in
+ * RunState, so saves and replays keep drawing from the same deck.
+ */
+
+import type { Resources } from './state';
+import type { RuleSet } from './rules';
+import type { EventCard, NameParts } from '../content/types';
+import { NAME_PARTS } from './nameParts';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Multipliers applied to event weights (0 takes an event out of the deck) */
+export type DeckWeights = {
+    /** By event category */
+    categories: Partial<Record<EventCard['category'], number>>;
+    /** By event ID, applied on top of the category multiplier */
+    events: Record<string, number>;
+};
+
+export type Scenario = {
+    id: string;
+    name: string;
+    /** Matches the `era` of the footnotes it draws on */
+    era: string;
+    /** Year or date range, as on footnotes */
+    date: string;
+    /** One-line summary for the scenario picker */
+    description: string;
+    /** Briefing shown when the run starts */
+    openingText: string;
+    /** Replaces the rule set's starting resources (capped at the rule set's caps) */
+    startingResources: Partial<Resources>;
+    /** Replaces the rule set's cycle count (campaign chapters keep their own) */
+    maxCycles?: number;
+    deckWeights: DeckWeights;
+    /** Added to the name tables when generating unions */
+    nameParts: NameParts;
+};
+
+// ============================================
+// RUN SETUP
+// ============================================
+
+/** Starting resources of a run under a rule set and an optional scenario */
+export function getStartingResources(rules: RuleSet, scenario: Scenario | null): Resources {
+    const resources = { ...rules.startingResources };
+    if (!scenario) return resources;
+
+    for (const [key, value] of Object.entries(scenario.startingResources) as [keyof Resources, number][]) {
+        resources[key] = Math.min(value, rules.resourceCaps[key]);
+    }
+    return resources;
+}
+
+/** Name tables with the scenario's extra parts appended */
+export function getScenarioNameParts(scenario: Scenario | null): NameParts {
+    if (!scenario) return NAME_PARTS;
+    return {
+        prefixes: [...NAME_PARTS.prefixes, ...scenario.nameParts.prefixes],
+        sectors: [...NAME_PARTS.sectors, ...scenario.nameParts.sectors],
+        suffixes: [...NAME_PARTS.suffixes, ...scenario.nameParts.suffixes],
+        modifiers: [...NAME_PARTS.modifiers, ...scenario.nameParts.modifiers],
+    };
+}
+
+// ============================================
+// DECK WEIGHTS
+// ============================================
+
+/** Draw weight of an event in a run (its own weight without a scenario) */
+export function getEventWeight(event: EventCard, scenario: Scenario | null): number {
+    if (!scenario) return event.weight;
+
+    const { categories, events } = scenario.deckWeights;
+    return event.weight * (categories[event.category] ?? 1) * (events[event.id] ?? 1);
+}
@@ -0,0 +1,128 @@
+/**
+ * Sector economy
+ *
+ * Every sector a union can be generated in (the engine name tables plus
+ * the scenario's additions) has an economy of its own for the run: its
+ * workforce, how restless the workers are, how strong the employers are
+ * and how healthy the trade is. Events shift it; the cycle moves it on
+ * without any random draw:
+ *
+ * - Health recovers toward the baseline; while it sits below, unrest
+ *   builds faster than it cools, and a booming trade calms down.
+ * - Unrest raises the crack risk of unions in the sector.
+ * - Strong employers buy off union officials: unions in the sector lose
+ *   loyalty every cycle.
+ * - A federation holding more shells of one sector than its workforce
+ *   can hide draws attention: unrest in the sector, and visibility on
+ *   the federation (see engine/recognition.ts).
+ */
+
+import type { RunState, UnionEntity } from './state';
+import type { EconomyRules } from './rules';
+import type { SectorEffects } from '../content/types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SectorState = {
+    /** Workers in the sector, in thousands */
+    workforce: number;
+    /** 0-100: how ready the workers are to walk out */
+    unrest: number;
+    /** 0-100: how hard the employers push back */
+    employerStrength: number;
+    /** 0-100: how well the trade is doing */
+    health: number;
+};
+
+export type SectorEconomy = Record<string, SectorState>;
+
+// ============================================
+// RUN SETUP
+// ============================================
+
+/** Opening state of every sector, with the rule set's per-sector overrides */
+export function createSectorEconomy(economy: EconomyRules, sectors: string[]): SectorEconomy {
+    return Object.fromEntries(
+        [...new Set(sectors)].map(sector => [sector, { ...economy.start, ...economy.sectorStart[sector] }])
+    );
+}
+
+// ============================================
+// SELECTORS
+// ============================================
+
+/** Crack risk added by unrest in the union's sector */
+export function getUnrestCrackRisk(union: UnionEntity, sectors: SectorEconomy, economy: EconomyRules): number {
+    return Math.floor((sectors[union.sector]?.unrest ?? 0) * economy.crackPerUnrest);
+}
+
+/** Loyalty a union loses this cycle to the employers of its sector */
+export function getEmployerLoyaltyLoss(union: UnionEntity, state: RunState): number {
+    const sector = state.sectors[union.sector];
+    const { employerPressure, employerLoyaltyLoss } = state.rules.economy;
+    return sector && sector.employerStrength >= employerPressure ? employerLoyaltyLoss : 0;
+}
+
+/** Shells of one sector a federation can hold before anyone notices */
+export function getShellCapacity(sector: SectorState, economy: EconomyRules): number {
+    return Math.floor(sector.workforce / economy.workforcePerShell);
+}
+
+// ============================================
+// SECTOR CYCLE
+// ============================================
+
+function clampSector(sector: SectorState): SectorState {
+    const clamp = (value: number) => Math.max(0, Math.min(100, value));
+    return {
+        workforce: Math.max(0, sector.workforce),
+        unrest: clamp(sector.unrest),
+        employerStrength: clamp(sector.employerStrength),
+        health: clamp(sector.health),
+    };
+}
+
+/**
+ * Move every sector's economy on by a cycle
+ * `concentration` is the shells federations hold beyond what each
+ * sector hides (see engine/recognition.ts).
+ */
+export function driftSectors(state: RunState, concentration: Record<string, number>): SectorEconomy {
+    const economy = state.rules.economy;
+    const sectors: SectorEconomy = {};
+    for (const [name, sector] of Object.entries(state.sectors)) {
+        const distress = economy.healthBaseline - sector.health;
+        const recovery = Math.sign(distress) * Math.min(Math.abs(distress), economy.healthRecovery);
+        const unrest = Math.round(distress * economy.unrestPerDistress)
+            + (concentration[name] ?? 0) * economy.concentrationUnrest
+            - economy.unrestCooling;
+        sectors[name] = clampSector({
+            ...sector,
+            unrest: sector.unrest + unrest,
+            health: sector.health + recovery,
+        });
+    }
+    return sectors;
+}
+
+// ============================================
+// EVENT EFFECTS
+// ============================================
+
+/** Apply an event's changes to sectors; sectors the run does not have are skipped */
+export function applySectorEffects(sectors: SectorEconomy, effects: Record<string, SectorEffects>): SectorEconomy {
+    const updated = { ...sectors };
+    for (const [name, delta] of Object.entries(effects)) {
+        const sector = updated[name];
+        if (!sector) continue;
+        updated[name] = clampSector({
+            workforce: sector.workforce + (delta.workforce ?? 0),
+            unrest: sector.unrest + (delta.unrest ?? 0),
+            employerStrength: sector.employerStrength + (delta.employerStrength ?? 0),
+            health: sector.health + (delta.health ?? 0),
+        });
+    }
+    return updated;
+}
@@ -0,0 +1,82 @@
+/**
+ * Human-readable seed codes
+ *
+ * A seed is written as three words from the union name tables and a
+ * number: PREFIX-SECTOR-SUFFIX-N. The words carry the seed modulo the
+ * table sizes and N carries the rest, so every non-negative integer seed
+ * has exactly one code and every code decodes to exactly one seed.
+ * Random seeds are drawn below SEED_CODE_SPACE, which keeps N to at
+ * most three digits.
+ */
+
+import { NAME_PARTS } from './nameParts';
+
+// ============================================
+// WORD TABLES
+// ============================================
+
+/** Uppercase letters only, so "Workers'" becomes WORKERS */
+function toCodeWord(word: string): string {
+    return word.toUpperCase().replace(/[^A-Z]/g, '');
+}
+
+const PREFIXES = NAME_PARTS.prefixes.map(toCodeWord);
+const SECTORS = NAME_PARTS.sectors.map(toCodeWord);
+const SUFFIXES = NAME_PARTS.suffixes.map(toCodeWord);
+
+const WORD_SPACE = PREFIXES.length * SECTORS.length * SUFFIXES.length;
+
+/** Seeds below this encode with a number of at most three digits */
+export const SEED_CODE_SPACE = WORD_SPACE * 1000;
+
+// ============================================
+// ENCODING
+// ============================================
+
+/**
+ * Encode a seed as a word code
+ * Seeds that are not non-negative integers fall back to plain digits.
+ */
+export function encodeSeed(seed: number): string {
+    if (!Number.isSafeInteger(seed) || seed < 0) return String(seed);
+
+    const prefix = seed % PREFIXES.length;
+    const sector = Math.floor(seed / PREFIXES.length) % SECTORS.length;
+    const suffix = Math.floor(seed / (PREFIXES.length * SECTORS.length)) % SUFFIXES.length;
+    const rest = Math.floor(seed / WORD_SPACE);
+
+    return `${PREFIXES[prefix]}-${SECTORS[sector]}-${SUFFIXES[suffix]}-${rest}`;
+}
+
+/**
+ * Decode a word code (case-insensitive) back to its seed
+ * Returns null if the code is malformed.
+ */
+export function decodeSeed(code: string): number | null {
+    const parts = code.trim().toUpperCase().split(/[\s-]+/);
+    if (parts.length !== 4 || !/^\d+$/.test(parts[3])) return null;
+
+    const prefix = PREFIXES.indexOf(parts[0]);
+    const sector = SECTORS.indexOf(parts[1]);
+    const suffix = SUFFIXES.indexOf(parts[2]);
+    if (prefix < 0 || sector < 0 || suffix < 0) return null;
+
+    const seed = Number(parts[3]) * WORD_SPACE +
+        suffix * PREFIXES.length * SECTORS.length +
+        sector * PREFIXES.length +
+        prefix;
+    return Number.isSafeInteger(seed) ? seed : null;
+}
+
+/**
+ * Read a seed typed by the player or taken from a link
+ * Accepts a word code or a plain integer; null if it is neither.
+ */
+export function parseSeedInput(input: string): number | null {
+    const trimmed = input.trim();
+    if (/^-?\d+$/.test(trimmed)) {
+        const seed = Number(trimmed);
+        return Number.isSafeInteger(seed) ? seed : null;
+    }
+    return decodeSeed(trimmed);
+}
@@ -5,6 +5,14 @@
  * actual worker representation - rewarding bureaucratic manipulation.
  */
 
+import { SEED_CODE_SPACE } from './seedCode';
+import { LEGACY_RULES, type RuleSet } from './rules';
+import { getStartingResources, getScenarioNameParts, type Scenario } from './scenario';
+import type { Campaign, CampaignRun } from './campaign';
+import type { RivalState } from './rival';
+import type { CouncilTally } from './council';
+import { createSectorEconomy, getUnrestCrackRisk, type SectorEconomy } from './sectors';
+
 // ============================================
 // RESOURCE TYPES
 // ============================================
@@ -26,6 +34,16 @@ export type Resources = {
 // ENTITY TYPES
 // ============================================
 
+/** Temporary conditions defined in engine/status.ts */
+export type StatusTag = 'COMPLAINT' | 'RADICAL' | 'SCANDAL';
+
+export type UnionStatus = {
+  tag: StatusTag;
+  /** Cycles left before it expires; null means until resolved */
+  remaining: number | null;
+  stacks: number;
+};
+
 export type UnionEntity = {
   id: string;
   name: string;
@@ -39,6 +57,8 @@ export type UnionEntity = {
   /** Cost per cycle to maintain */
   maintenanceCost: number;
   tags: string[];
+  /** Active status effects (see engine/status.ts) */
+  statuses: UnionStatus[];
   /** Whether it's been through incubation */
   isIncubated: boolean;
   /** Whether it can be bundled into a federation */
@@ -60,19 +80,112 @@ export type FederationEntity = {
   visibility: number;
 };
 
+// ============================================
+// EVENT CHAIN TYPES
+// ============================================
+
+/** A follow-up event waiting in the queue */
+export type PendingEvent = {
+  eventId: string;
+  /** Cycle from which it is drawn ahead of the deck */
+  dueCycle: number;
+};
+
+/** A choice the player took on an event */
+export type ChoiceRecord = {
+  eventId: string;
+  choiceId: string;
+  cycle: number;
+};
+
+/** Narrative flags set by content (see engine/flags.ts) */
+export type RunFlags = Record<string, boolean | number>;
+
+// ============================================
+// ELECTION TYPES
+// ============================================
+
+export type DelegateRoll = {
+  federationId: string;
+  federationName: string;
+  /** Delegates the federation is entitled to */
+  expected: number;
+  /** Delegates that actually voted for the player */
+  secured: number;
+  /** Outcome of each individual delegate roll */
+  rolls: boolean[];
+  /** Delegates cancelled by an event: none of them were rolled */
+  cancelled: boolean;
+};
+
+/** The rival hatchery's side of Election Night */
+export type RivalTally = {
+  rolls: DelegateRoll[];
+  /** Delegates from the rival's recognized federations before rolls */
+  expectedDelegates: number;
+  /** Delegates that held firm for the rival */
+  securedDelegates: number;
+};
+
+export type ElectionResult = {
+  rolls: DelegateRoll[];
+  /** Delegates from recognized federations before rolls, plus bonus delegates */
+  expectedDelegates: number;
+  /** Delegates that held firm after rolls, plus bonus delegates */
+  securedDelegates: number;
+  /** Election-only delegates granted by events (never rolled) */
+  bonusDelegates: number;
+  /** The rival's delegates (null without a rival) */
+  rival: RivalTally | null;
+  /** Seats on the labor council, including the player's bargaining after the vote */
+  council: CouncilTally;
+  /** Whether the player controls the council (see engine/council.ts) */
+  won: boolean;
+};
+
 // ============================================
 // GAME STATE
 // ============================================
 
-export type GamePhase = 'menu' | 'playing' | 'event' | 'election' | 'ended';
+/** 'interlude' sits between two elections of a campaign (see engine/campaign.ts) */
+export type GamePhase = 'menu' | 'playing' | 'event' | 'election' | 'interlude' | 'ended';
+
+/** 'partial': a campaign lost power after winning at least one election */
+export type Ending = 'capture' | 'partial' | 'collapse' | 'whistleblower' | null;
+
+/** Which risk meter ended the run */
+export type LoseCondition = 'legitimacy' | 'audit' | 'street';
 
-export type Ending = 'capture' | 'collapse' | 'whistleblower' | null;
+/** What pushed a risk meter over its limit */
+export type CollapseTrigger =
+  | { kind: 'action'; action: string }
+  | { kind: 'event'; eventId: string; choiceId: string }
+  | { kind: 'upkeep' };
+
+export type CollapseInfo = {
+  cause: LoseCondition;
+  /** Cycle during which the meter crossed its limit */
+  cycle: number;
+  trigger: CollapseTrigger;
+};
+
+/** Options picked on the start menu, fixed for the whole run */
+export type RunSettings = {
+  /** Allow undoing actions within the current cycle (see engine/undo.ts) */
+  allowUndo: boolean;
+  /** UTC date (YYYY-MM-DD) of a Daily Dispatch run (see engine/daily.ts); null otherwise */
+  dailyDate: string | null;
+  /** Play against a rival hatchery (see engine/rival.ts) */
+  rival: boolean;
+};
 
 export type RunState = {
   /** RNG seed for reproducibility */
   seed: number;
   /** Current RNG state */
   rngCursor: number;
+  /** Counter for the next union or federation ID */
+  nextEntityId: number;
   /** Current cycle (1-indexed) */
   cycle: number;
   /** Maximum cycles before election */
@@ -87,14 +200,44 @@ export type RunState = {
   federations: Record<string, FederationEntity>;
   /** IDs of events that have occurred */
   eventHistory: string[];
+  /** Choices taken on past events, in order */
+  choiceHistory: ChoiceRecord[];
+  /** Scheduled follow-up events, drawn before the weighted deck */
+  pendingEvents: PendingEvent[];
+  /** Narrative flags set by event choices */
+  flags: RunFlags;
   /** Current event being displayed (if in 'event' phase) */
   currentEventId: string | null;
   /** Footnote IDs unlocked by player */
   unlockedFootnotes: string[];
+  /** Documents gathered toward the whistleblower ending */
+  evidence: number;
   /** How the run ended */
   ending: Ending;
+  /** Why the run collapsed (null unless a risk meter ended it) */
+  collapse: CollapseInfo | null;
+  /** Election-only delegates granted by events */
+  bonusDelegates: number;
+  /** Federations whose delegates an event cancelled for the election */
+  cancelledFederationIds: string[];
+  /** Change to the council seats needed for a majority */
+  thresholdModifier: number;
+  /** Delegate rolls made on entering Election Night */
+  electionResult: ElectionResult | null;
   /** Whether to show tutorial tips */
   showTips: boolean;
+  /** Options picked on the start menu */
+  settings: RunSettings;
+  /** Costs, caps and thresholds of this run (see engine/rules.ts) */
+  rules: RuleSet;
+  /** Historical scenario the run is set in (see engine/scenario.ts); null for the standard deck */
+  scenario: Scenario | null;
+  /** Campaign the run belongs to (see engine/campaign.ts); null for a single election */
+  campaign: CampaignRun | null;
+  /** The rival hatchery (see engine/rival.ts); null unless the settings call for one */
+  rival: RivalState | null;
+  /** Economy of every sector unions can be generated in (see engine/sectors.ts) */
+  sectors: SectorEconomy;
   /** Whether unions have already been generated in the current cycle */
   unionsGeneratedInCycle: boolean;
 };
@@ -103,38 +246,63 @@ export type RunState = {
 // INITIAL STATE
 // ============================================
 
-export const DEFAULT_RESOURCES: Resources = {
-  paperwork: 3,
-  patronage: 5,
-  legitimacy: 70,
-  auditRisk: 10,
-  streetHeat: 5,
+/** Pick a seed for a run started without one (small enough for a short seed code) */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * SEED_CODE_SPACE);
+}
+
+export const DEFAULT_SETTINGS: RunSettings = {
+  allowUndo: false,
+  dailyDate: null,
+  rival: false,
 };
 
-export function createInitialState(seed?: number, showTips: boolean = false): RunState {
-  console.log('[createInitialState] Called with seed:', seed);
-  const actualSeed = seed ?? Math.floor(Math.random() * 2147483647);
-  console.log('[createInitialState] Actual seed:', actualSeed);
+export function createInitialState(
+  seed?: number,
+  showTips: boolean = false,
+  settings: RunSettings = DEFAULT_SETTINGS,
+  rules: RuleSet = LEGACY_RULES,
+  scenario: Scenario | null = null,
+  campaign: Campaign | null = null
+): RunState {
+  const actualSeed = seed ?? createRandomSeed();
+
+  // A campaign's first chapter already carries the chosen preset's rules, and its own cycle count
+  const runRules = campaign?.chapters[0].rules ?? rules;
+  const runSettings = { ...DEFAULT_SETTINGS, ...settings };
 
-  const state: RunState = {
+  return {
     seed: actualSeed,
     rngCursor: actualSeed,
+    nextEntityId: 1,
     cycle: 1,
-    maxCycles: 5,
+    maxCycles: campaign ? runRules.maxCycles : scenario?.maxCycles ?? runRules.maxCycles,
     phase: 'menu',
-    resources: { ...DEFAULT_RESOURCES },
+    resources: getStartingResources(runRules, scenario),
     unions: {},
     federations: {},
     eventHistory: [],
+    choiceHistory: [],
+    pendingEvents: [],
+    flags: {},
     currentEventId: null,
     unlockedFootnotes: [],
+    evidence: 0,
     ending: null,
+    collapse: null,
+    bonusDelegates: 0,
+    cancelledFederationIds: [],
+    thresholdModifier: 0,
+    electionResult: null,
     showTips,
+    settings: runSettings,
+    rules: runRules,
+    scenario,
+    campaign: campaign ? { ...campaign, chapterIndex: 0, results: [] } : null,
+    rival: runSettings.rival ? { unions: {}, federations: {} } : null,
+    sectors: createSectorEconomy(runRules.economy, getScenarioNameParts(scenario).sectors),
     unionsGeneratedInCycle: false,
   };
-
-  console.log('[createInitialState] Created state with phase:', state.phase);
-  return state;
 }
 
 // ============================================
@@ -158,17 +326,29 @@ export function getAvailableUnions(state: RunState): UnionEntity[] {
     .filter(u => u.isLicensed && !usedUnionIds.has(u.id));
 }
 
-/** Check if any lose condition is met */
-export function checkLoseCondition(state: RunState): 'legitimacy' | 'audit' | 'street' | null {
+/** Find the federation a union belongs to, if any */
+export function getUnionFederation(state: RunState, unionId: string): FederationEntity | undefined {
+  return Object.values(state.federations).find(f => f.unionIds.includes(unionId));
+}
+
+/** Whether a union is a shell on paper (no real members) */
+export function isShellUnion(union: UnionEntity): boolean {
+  return union.tags.includes('compliant') || union.tags.includes('shell');
+}
+
+/** Check if any lose condition is met (risk meter caps are always 100, see RuleSetSchema) */
+export function checkLoseCondition(state: RunState): LoseCondition | null {
   if (state.resources.legitimacy <= 0) return 'legitimacy';
   if (state.resources.auditRisk >= 100) return 'audit';
   if (state.resources.streetHeat >= 100) return 'street';
   return null;
 }
 
-/** Calculate total maintenance cost */
+/** Calculate total maintenance cost (only licensed, uncracked unions cost anything) */
 export function getTotalMaintenanceCost(state: RunState): number {
-  return Object.values(state.unions).reduce((sum, u) => sum + u.maintenanceCost, 0);
+  return Object.values(state.unions)
+    .filter(u => u.isLicensed && !u.isCracked)
+    .reduce((sum, u) => sum + u.maintenanceCost, 0);
 }
 
 // ============================================
@@ -178,27 +358,22 @@ export function getTotalMaintenanceCost(state: RunState): number {
 /**
  * Calculate license success chance based on plausibility
  * Higher plausibility = higher chance of successful licensing
- * Range: 30-95%
+ * (Normal rules: 30% at plausibility 0, 60% at 50, capped at 95%)
  */
-export function getLicenseChance(union: UnionEntity): number {
-  // Base 30% + 0.6 * plausibility
-  // At plausibility 50: 60%
-  // At plausibility 100: 90%
-  // At plausibility 0: 30%
-  return Math.min(95, 30 + Math.floor(union.plausibility * 0.6));
+export function getLicenseChance(union: UnionEntity, rules: RuleSet): number {
+  const { base, perPlausibility, max } = rules.formulas.license;
+  return Math.min(max, base + Math.floor(union.plausibility * perPlausibility));
 }
 
 /**
  * Calculate crack risk per cycle based on integrity
  * Lower integrity = higher crack risk (shells are fragile)
- * Range: 5-40%
+ * (Normal rules: 40% at integrity 0, 23% at 50, never below 5%)
+ * Unrest in the union's sector adds to it.
  */
-export function getCrackRisk(union: UnionEntity): number {
-  // Low integrity = high crack risk
-  // At integrity 0: 40%
-  // At integrity 50: 22%
-  // At integrity 100: 5%
-  return Math.max(5, 40 - Math.floor(union.integrity * 0.35));
+export function getCrackRisk(union: UnionEntity, rules: RuleSet, sectors: SectorEconomy = {}): number {
+  const { base, perIntegrity, min } = rules.formulas.crack;
+  return Math.max(min, base - Math.floor(union.integrity * perIntegrity)) + getUnrestCrackRisk(union, sectors, rules.economy);
 }
 
 /**
@@ -237,19 +412,19 @@ export function getFederationReliability(
 /**
  * Calculate paperwork reward from dissolving a union
  * Based on plausibility - higher plausibility = more paperwork
- * Range: 1-4 paperwork
+ * (Normal rules: 1-4 paperwork)
  */
-export function getDissolveReward(union: UnionEntity): number {
-  // Base 1 + bonus for every 30 plausibility
-  return 1 + Math.floor(union.plausibility / 30);
+export function getDissolveReward(union: UnionEntity, rules: RuleSet): number {
+  const { base, step } = rules.formulas.dissolveReward;
+  return base + Math.floor(union.plausibility / step);
 }
 
 /**
  * Calculate patronage reward from reassigning a union
  * Based on loyalty - higher loyalty = more patronage
- * Range: 1-5 patronage
+ * (Normal rules: 1-5 patronage)
  */
-export function getReassignReward(union: UnionEntity): number {
-  // Base 1 + bonus for every 25 loyalty
-  return 1 + Math.floor(union.loyalty / 25);
+export function getReassignReward(union: UnionEntity, rules: RuleSet): number {
+  const { base, step } = rules.formulas.reassignReward;
+  return base + Math.floor(union.loyalty / step);
 }
@@ -0,0 +1,168 @@
+/**
+ * Union status effects
+ *
+ * Temporary conditions on a union (a filed grievance, organizers in the
+ * ranks, a scandal in the papers). STATUS_DEFINITIONS names each status
+ * and says how repeat applications stack; how long it lasts, what it costs
+ * every cycle and what it takes to make it go away are balance numbers in
+ * the rule set's `statuses`.
+ * Permanent archetype tags ('shell', 'restless', ...) stay in `tags`.
+ */
+
+import type { RunState, UnionEntity, UnionStatus, StatusTag } from './state';
+import type { ResourceEffects } from './effects';
+import { applyUnionEffects } from './effects';
+import type { RuleSet } from './rules';
+
+// ============================================
+// DEFINITIONS
+// ============================================
+
+/**
+ * How a repeat application combines with an active status
+ * - refresh: reset the duration
+ * - stack: add a stack (up to maxStacks) and reset the duration
+ * - extend: add the full duration on top of what remains
+ */
+export type StackRule = 'refresh' | 'stack' | 'extend';
+
+export type StatusDefinition = {
+    label: string;
+    stacking: StackRule;
+};
+
+export const STATUS_DEFINITIONS: Record<StatusTag, StatusDefinition> = {
+    COMPLAINT: { label: 'Complaint', stacking: 'stack' },
+    RADICAL: { label: 'Radical', stacking: 'extend' },
+    SCANDAL: { label: 'Scandal', stacking: 'refresh' },
+};
+
+export const STATUS_TAGS = Object.keys(STATUS_DEFINITIONS) as StatusTag[];
+
+// ============================================
+// APPLYING AND RESOLVING
+// ============================================
+
+/** Find an active status on a union */
+export function getStatus(union: UnionEntity, tag: StatusTag): UnionStatus | undefined {
+    return union.statuses.find(s => s.tag === tag);
+}
+
+/**
+ * Apply a status to a union, following its stacking rule
+ */
+export function applyStatus(union: UnionEntity, tag: StatusTag, rules: RuleSet): UnionEntity {
+    const { duration, maxStacks } = rules.statuses[tag];
+    const existing = getStatus(union, tag);
+
+    if (!existing) {
+        return {
+            ...union,
+            statuses: [...union.statuses, { tag, remaining: duration, stacks: 1 }],
+        };
+    }
+
+    let updated: UnionStatus;
+    switch (STATUS_DEFINITIONS[tag].stacking) {
+        case 'refresh':
+            updated = { ...existing, remaining: duration };
+            break;
+        case 'stack':
+            updated = {
+                ...existing,
+                stacks: Math.min(maxStacks, existing.stacks + 1),
+                remaining: duration,
+            };
+            break;
+        case 'extend':
+            updated = {
+                ...existing,
+                remaining: existing.remaining === null || duration === null
+                    ? null
+                    : existing.remaining + duration,
+            };
+            break;
+    }
+
+    return {
+        ...union,
+        statuses: union.statuses.map(s => (s.tag === tag ? updated : s)),
+    };
+}
+
+/** Remove a status from a union */
+export function removeStatus(union: UnionEntity, tag: StatusTag): UnionEntity {
+    return { ...union, statuses: union.statuses.filter(s => s.tag !== tag) };
+}
+
+/** Whether a status can be resolved by hand */
+export function isResolvable(tag: StatusTag, rules: RuleSet): boolean {
+    return rules.statuses[tag].resolve !== undefined;
+}
+
+/** Street Heat multiplier for actions on a union (highest active status wins) */
+export function getStreetHeatMultiplier(union: UnionEntity, rules: RuleSet): number {
+    return union.statuses.reduce(
+        (max, s) => Math.max(max, rules.statuses[s.tag].streetHeatMultiplier ?? 1),
+        1
+    );
+}
+
+// ============================================
+// CYCLE PROCESSING
+// ============================================
+
+/**
+ * Resource effects of every active status for one cycle
+ * Cracked unions no longer cause trouble
+ */
+export function getStatusUpkeep(state: RunState): ResourceEffects {
+    const totals: ResourceEffects = {};
+
+    for (const union of Object.values(state.unions)) {
+        if (union.isCracked) continue;
+        for (const status of union.statuses) {
+            const { perCycle } = state.rules.statuses[status.tag];
+            for (const [key, value] of Object.entries(perCycle) as [keyof ResourceEffects, number][]) {
+                totals[key] = (totals[key] ?? 0) + value * status.stacks;
+            }
+        }
+    }
+
+    return totals;
+}
+
+/**
+ * Apply per-cycle stat changes and tick down durations
+ * Expired statuses are removed
+ */
+export function tickStatuses(unions: Record<string, UnionEntity>, rules: RuleSet): Record<string, UnionEntity> {
+    const updated: Record<string, UnionEntity> = {};
+
+    for (const [unionId, union] of Object.entries(unions)) {
+        if (union.statuses.length === 0 || union.isCracked) {
+            updated[unionId] = union;
+            continue;
+        }
+
+        let next = union;
+        for (const status of union.statuses) {
+            const { unionPerCycle } = rules.statuses[status.tag];
+            if (!unionPerCycle) continue;
+            next = applyUnionEffects(next, {
+                plausibility: (unionPerCycle.plausibility ?? 0) * status.stacks,
+                loyalty: (unionPerCycle.loyalty ?? 0) * status.stacks,
+                integrity: (unionPerCycle.integrity ?? 0) * status.stacks,
+            });
+        }
+
+        updated[unionId] = {
+            ...next,
+            statuses: union.statuses
+                .map(s => (s.remaining === null ? s : { ...s, remaining: s.remaining - 1 }))
+                .filter(s => s.remaining === null || s.remaining > 0),
+        };
+    }
+
+    return updated;
+}
@@ -0,0 +1,151 @@
+/**
+ * Entity-targeted event effects
+ *
+ * Lets an event choice reach past the resource bar and touch specific
+ * unions: the Textile union during a Textile strike, every shell when
+ * the auditors come, or whichever union the player throws under the bus.
+ *
+ * Selectors are resolved against the run state in union insertion order;
+ * random picks draw from the run's RNG, so the same seed and the same
+ * choices always hit the same unions.
+ */
+
+import type { RunState, UnionEntity, FederationEntity } from './state';
+import type { RNG } from './rng';
+import type { RuleSet } from './rules';
+import type { TargetSelector, TargetedEffect } from '../content/types';
+import { applyUnionEffects, applyFederationVisibility } from './effects';
+import { applyStatus } from './status';
+
+// ============================================
+// SELECTORS
+// ============================================
+
+/** Unions that can be targeted at all (cracked unions are gone) */
+export function getTargetableUnions(state: RunState): UnionEntity[] {
+    return Object.values(state.unions).filter(u => !u.isCracked);
+}
+
+/** Whether a choice needs the player to pick a union before it resolves */
+export function needsPlayerPick(targets: TargetedEffect[] | undefined): boolean {
+    return (targets ?? []).some(t => t.target.by === 'playerPick');
+}
+
+/**
+ * Resolve a selector to union IDs
+ * `pickedUnionId` is the player's pick for 'playerPick' selectors
+ */
+export function resolveTargets(
+    state: RunState,
+    selector: TargetSelector,
+    rng: RNG,
+    pickedUnionId?: string
+): string[] {
+    const candidates = getTargetableUnions(state);
+
+    switch (selector.by) {
+        case 'sector':
+            return candidates.filter(u => u.sector === selector.sector).map(u => u.id);
+
+        case 'tag':
+            return candidates.filter(u => u.tags.includes(selector.tag)).map(u => u.id);
+
+        case 'archetype':
+            // The archetype is always the first tag rolled by the generator
+            return candidates.filter(u => u.tags[0] === selector.archetype).map(u => u.id);
+
+        case 'federationMember': {
+            const federations = Object.values(state.federations).filter(f =>
+                f.unionIds.some(id => state.unions[id] && !state.unions[id].isCracked)
+            );
+            if (federations.length === 0) return [];
+            const federation = rng.pick(federations);
+            const members = federation.unionIds.filter(id => state.unions[id] && !state.unions[id].isCracked);
+            return [rng.pick(members)];
+        }
+
+        case 'playerPick':
+            return pickedUnionId && candidates.some(u => u.id === pickedUnionId) ? [pickedUnionId] : [];
+    }
+}
+
+// ============================================
+// APPLICATION
+// ============================================
+
+/** Apply one targeted effect to a single union */
+function applyToUnion(union: UnionEntity, effect: TargetedEffect, rules: RuleSet): UnionEntity {
+    let next = effect.stats ? applyUnionEffects(union, effect.stats) : union;
+
+    if (effect.addTags || effect.removeTags) {
+        const removed = new Set(effect.removeTags ?? []);
+        const tags = next.tags.filter(t => !removed.has(t));
+        for (const tag of effect.addTags ?? []) {
+            if (!tags.includes(tag)) tags.push(tag);
+        }
+        next = { ...next, tags };
+    }
+
+    for (const tag of effect.statuses ?? []) {
+        next = applyStatus(next, tag, rules);
+    }
+
+    if (effect.crack) {
+        next = { ...next, isCracked: true, isLicensed: false };
+    }
+
+    return next;
+}
+
+/**
+ * Resolve and apply every targeted effect of a choice, in order
+ * Later effects see the unions as earlier effects left them.
+ * Visibility applies once to each federation holding a targeted union.
+ */
+export function applyTargetedEffects(
+    state: RunState,
+    targets: TargetedEffect[],
+    rng: RNG,
+    pickedUnionId?: string
+): { unions: Record<string, UnionEntity>; federations: Record<string, FederationEntity> } {
+    let unions = state.unions;
+    let federations = state.federations;
+
+    for (const effect of targets) {
+        const targetIds = resolveTargets({ ...state, unions, federations }, effect.target, rng, pickedUnionId);
+        if (targetIds.length === 0) continue;
+
+        unions = { ...unions };
+        for (const unionId of targetIds) {
+            unions[unionId] = applyToUnion(unions[unionId], effect, state.rules);
+        }
+
+        if (effect.visibility) {
+            const delta = effect.visibility;
+            federations = Object.fromEntries(
+                Object.entries(federations).map(([id, f]) => [
+                    id,
+                    f.unionIds.some(uid => targetIds.includes(uid)) ? applyFederationVisibility(f, delta) : f,
+                ])
+            );
+        }
+    }
+
+    return { unions, federations };
+}
+
+/** Short description of a selector for the event modal */
+export function describeTarget(selector: TargetSelector): string {
+    switch (selector.by) {
+        case 'sector':
+            return `${selector.sector} unions`;
+        case 'tag':
+            return `'${selector.tag}' unions`;
+        case 'archetype':
+            return `${selector.archetype} unions`;
+        case 'federationMember':
+            return 'a federation member';
+        case 'playerPick':
+            return 'a union of your choice';
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * Undo within a cycle
+ *
+ * Wraps gameReducer with a stack of earlier states. Only actions that
+ * draw nothing from the RNG can be undone: the moment an action moves
+ * the RNG cursor (a license roll, an incubation, the end of a cycle) its
+ * result is committed and the stack is cleared, so undo can never be
+ * used to reroll. The stack is also cleared when the cycle or the phase
+ * changes. Runs only get undo if the player enabled it on the start menu.
+ */
+
+import type { RunState } from './state';
+import { gameReducer, type GameAction } from './reducer';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Most actions a player can walk back in one cycle */
+const MAX_UNDO_DEPTH = 20;
+
+export type UndoAction = GameAction | { type: 'UNDO' };
+
+export type UndoState = {
+    present: RunState;
+    /** Earlier states in the current cycle, most recent last */
+    past: RunState[];
+};
+
+export function createUndoState(present: RunState): UndoState {
+    return { present, past: [] };
+}
+
+// ============================================
+// REDUCER
+// ============================================
+
+/** Whether the last action can be undone */
+export function canUndo(history: UndoState): boolean {
+    return history.present.settings.allowUndo && history.past.length > 0;
+}
+
+/**
+ * Whether a transition keeps the undo stack
+ * Anything random, any new cycle and any phase change commits it.
+ */
+function isUndoable(previous: RunState, next: RunState): boolean {
+    return next.settings.allowUndo &&
+        next.rngCursor === previous.rngCursor &&
+        next.cycle === previous.cycle &&
+        next.phase === previous.phase &&
+        next.phase === 'playing';
+}
+
+export function undoableReducer(history: UndoState, action: UndoAction): UndoState {
+    if (action.type === 'UNDO') {
+        if (!canUndo(history)) return history;
+        return {
+            present: history.past[history.past.length - 1],
+            past: history.past.slice(0, -1),
+        };
+    }
+
+    const next = gameReducer(history.present, action);
+
+    // Rejected actions (can't afford, invalid target) leave nothing to undo
+    if (next === history.present) return history;
+
+    if (!isUndoable(history.present, next)) {
+        return { present: next, past: [] };
+    }
+
+    return {
+        present: next,
+        past: [...history.past, history.present].slice(-MAX_UNDO_DEPTH),
+    };
+}
@@ -0,0 +1,60 @@
+/**
+ * Daily Dispatch results
+ *
+ * One record per UTC date under `hatchery.daily`, written when the
+ * attempt starts and scored when the run ends. A started attempt is the
+ * day's only attempt, finished or not.
+ */
+
+import type { RunState } from '../engine/state';
+import { getRunScore } from '../engine/daily';
+import { DailyHistorySchema, type DailyHistory } from './schemas';
+
+const DAILY_KEY = 'hatchery.daily';
+
+/** Every recorded daily attempt; an unreadable history is discarded */
+export function loadDailyHistory(): DailyHistory {
+    try {
+        const stored = localStorage.getItem(DAILY_KEY);
+        return stored === null ? {} : DailyHistorySchema.parse(JSON.parse(stored));
+    } catch (err) {
+        console.warn('[daily] Discarding unreadable daily history:', err);
+        localStorage.removeItem(DAILY_KEY);
+        return {};
+    }
+}
+
+function writeDailyHistory(history: DailyHistory): DailyHistory {
+    try {
+        localStorage.setItem(DAILY_KEY, JSON.stringify(history));
+    } catch (err) {
+        console.warn('[daily] Could not write daily history:', err);
+    }
+    return history;
+}
+
+/**
+ * Record the start of a daily attempt
+ * Returns null if the day already has one.
+ */
+export function startDailyAttempt(date: string, seed: number, contentVersion: string): DailyHistory | null {
+    const history = loadDailyHistory();
+    if (history[date]) return null;
+    return writeDailyHistory({
+        ...history,
+        [date]: { seed, contentVersion, score: null, ending: null, cycle: 1 },
+    });
+}
+
+/** Score a finished daily run; a day is only ever scored once */
+export function recordDailyResult(state: RunState): DailyHistory {
+    const history = loadDailyHistory();
+    const date = state.settings.dailyDate;
+    const record = date ? history[date] : undefined;
+    if (!date || !record || record.score !== null || record.seed !== state.seed) return history;
+
+    return writeDailyHistory({
+        ...history,
+        [date]: { ...record, score: getRunScore(state), ending: state.ending, cycle: state.cycle },
+    });
+}
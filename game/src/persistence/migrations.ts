@@ -0,0 +1,215 @@
+/**
+ * Save migrations
+ *
+ * Every change to RunState bumps SAVE_VERSION (and with it the storage
+ * key, `hatchery.save.v<N>`) and registers a step here that upgrades a
+ * save of the previous version. Loading an old save runs every step in
+ * order, then validates the result against the current schema.
+ */
+
+import { LEGACY_RULES } from '../engine/rules';
+import { getScenarioNameParts, type Scenario } from '../engine/scenario';
+import { createSectorEconomy } from '../engine/sectors';
+
+// ============================================
+// VERSIONS
+// ============================================
+
+/** Version of the save layout written by this build */
+export const SAVE_VERSION = 11;
+
+/** A raw save blob of some older version, before validation */
+export type RawSave = Record<string, unknown>;
+
+/** Apply a change to the saved run, if the save holds one */
+function mapRunState(save: RawSave, change: (run: RawSave) => RawSave): RawSave {
+    const run = save.runState as RawSave | null | undefined;
+    return run ? { ...save, runState: change(run) } : save;
+}
+
+/** The rules of v2 and earlier: the legacy rules up to their upkeep, with the delegate threshold the council replaced */
+function getV2Rules(): RawSave {
+    const { id, label, description, startingResources, resourceCaps, costs, upkeep, maxCycles } = LEGACY_RULES;
+    return { id, label, description, startingResources, resourceCaps, costs, upkeep, delegateThreshold: 6, maxCycles };
+}
+
+/**
+ * Upgrade steps keyed by the version they upgrade FROM
+ * e.g. MIGRATIONS[1] turns a v1 save into a v2 save
+ */
+const MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {
+    // v2: RunSettings.dailyDate (Daily Dispatch runs)
+    1: save => mapRunState(save, run => ({
+        ...run,
+        settings: { ...(run.settings as RawSave), dailyDate: null },
+    })),
+    // v3: RunState.rules; older runs were played under the numbers now called Normal
+    2: save => mapRunState(save, run => ({ ...run, rules: getV2Rules() })),
+    // v4: formulas, incubation and archetypes joined the rule set, unchanged from the old constants
+    3: save => mapRunState(save, run => ({
+        ...run,
+        rules: {
+            ...(run.rules as RawSave),
+            formulas: LEGACY_RULES.formulas,
+            incubation: LEGACY_RULES.incubation,
+            archetypes: LEGACY_RULES.archetypes,
+        },
+    })),
+    // v5: RunState.scenario; older runs used the standard deck
+    4: save => mapRunState(save, run => ({ ...run, scenario: null })),
+    // v6: RunState.campaign; older runs were single elections
+    5: save => mapRunState(save, run => ({ ...run, campaign: null })),
+    // v7: the rival hatchery (settings, state, rules and election result); older runs had none
+    6: save => mapRunState(save, run => {
+        const addRivalRules = (rules: RawSave) => ({ ...rules, rival: LEGACY_RULES.rival });
+        const campaign = run.campaign as RawSave | null;
+        const electionResult = run.electionResult as RawSave | null;
+        return {
+            ...run,
+            settings: { ...(run.settings as RawSave), rival: false },
+            rules: addRivalRules(run.rules as RawSave),
+            campaign: campaign && {
+                ...campaign,
+                chapters: (campaign.chapters as RawSave[]).map(chapter => ({
+                    ...chapter,
+                    rules: addRivalRules(chapter.rules as RawSave),
+                })),
+            },
+            electionResult: electionResult && { ...electionResult, rival: null },
+            rival: null,
+        };
+    }),
+    // v8: the labor council replaced the delegate threshold. A council of
+    // 2t - 1 general seats has a majority of t, so old runs keep their target.
+    7: save => mapRunState(save, run => {
+        const toCouncil = ({ delegateThreshold, ...rules }: RawSave) => ({
+            ...rules,
+            council: {
+                ...LEGACY_RULES.council,
+                seats: (delegateThreshold as number) * 2 - 1,
+            },
+        });
+        const rules = toCouncil(run.rules as RawSave);
+        const campaign = run.campaign as RawSave | null;
+        const electionResult = run.electionResult as RawSave | null;
+        const toElectionResult = ({ threshold, ...result }: RawSave) => {
+            const player = result.securedDelegates as number;
+            const rival = ((result.rival as RawSave | null)?.securedDelegates as number | undefined) ?? 0;
+            return {
+                ...result,
+                council: {
+                    seats: rules.council.seats,
+                    majority: threshold,
+                    generalSeats: { player, rival, vacant: Math.max(0, rules.council.seats - player - rival) },
+                    sectorSeats: [],
+                    swingSeats: 0,
+                    bargained: 0,
+                },
+            };
+        };
+        return {
+            ...run,
+            rules,
+            campaign: campaign && {
+                ...campaign,
+                chapters: (campaign.chapters as RawSave[]).map(chapter => ({
+                    ...chapter,
+                    rules: toCouncil(chapter.rules as RawSave),
+                })),
+                results: (campaign.results as RawSave[]).map(({ securedDelegates, threshold, ...result }) => ({
+                    ...result,
+                    seats: securedDelegates,
+                    majority: threshold,
+                })),
+            },
+            electionResult: electionResult && toElectionResult(electionResult),
+        };
+    }),
+    // v9: the sector economy; older runs get the still economy of the legacy rules
+    8: save => mapRunState(save, run => {
+        const addEconomy = (rules: RawSave) => ({ ...rules, economy: LEGACY_RULES.economy });
+        const campaign = run.campaign as RawSave | null;
+        const sectors = getScenarioNameParts(run.scenario as Scenario | null).sectors;
+        return {
+            ...run,
+            rules: addEconomy(run.rules as RawSave),
+            campaign: campaign && {
+                ...campaign,
+                chapters: (campaign.chapters as RawSave[]).map(chapter => ({
+                    ...chapter,
+                    rules: addEconomy(chapter.rules as RawSave),
+                })),
+            },
+            sectors: createSectorEconomy(LEGACY_RULES.economy, sectors),
+        };
+    }),
+    // v10: the last hardcoded balance numbers joined the rule set, unchanged
+    9: save => mapRunState(save, run => {
+        const { defectionLegitimacyLoss, crackLegitimacyLoss, crackAuditRisk } = LEGACY_RULES.upkeep;
+        const addBalance = (rules: RawSave) => ({
+            ...rules,
+            upkeep: { ...(rules.upkeep as RawSave), defectionLegitimacyLoss, crackLegitimacyLoss, crackAuditRisk },
+            federation: LEGACY_RULES.federation,
+            recognition: LEGACY_RULES.recognition,
+            evidence: LEGACY_RULES.evidence,
+        });
+        const campaign = run.campaign as RawSave | null;
+        return {
+            ...run,
+            rules: addBalance(run.rules as RawSave),
+            campaign: campaign && {
+                ...campaign,
+                chapters: (campaign.chapters as RawSave[]).map(chapter => ({
+                    ...chapter,
+                    rules: addBalance(chapter.rules as RawSave),
+                })),
+            },
+        };
+    }),
+    // v11: the recognition odds, the strained crack multiplier and the status table joined the rule set, unchanged
+    10: save => mapRunState(save, run => {
+        const { crack, derecognition, recognition } = LEGACY_RULES.formulas;
+        const addBalance = (rules: RawSave) => ({
+            ...rules,
+            formulas: {
+                ...(rules.formulas as RawSave),
+                crack: { ...((rules.formulas as RawSave).crack as RawSave), strainedMultiplier: crack.strainedMultiplier },
+                derecognition,
+                recognition,
+            },
+            statuses: LEGACY_RULES.statuses,
+        });
+        const campaign = run.campaign as RawSave | null;
+        return {
+            ...run,
+            rules: addBalance(run.rules as RawSave),
+            campaign: campaign && {
+                ...campaign,
+                chapters: (campaign.chapters as RawSave[]).map(chapter => ({
+                    ...chapter,
+                    rules: addBalance(chapter.rules as RawSave),
+                })),
+            },
+        };
+    }),
+};
+
+// ============================================
+// MIGRATION
+// ============================================
+
+/**
+ * Upgrade a save from `fromVersion` to SAVE_VERSION
+ * Throws if a step is missing or fails
+ */
+export function migrateSave(save: RawSave, fromVersion: number): RawSave {
+    let migrated = save;
+    for (let version = fromVersion; version < SAVE_VERSION; version++) {
+        const step = MIGRATIONS[version];
+        if (!step) {
+            throw new Error(`No migration from save version ${version}`);
+        }
+        migrated = { ...step(migrated), saveVersion: version + 1 };
+    }
+    return migrated;
+}
@@ -0,0 +1,216 @@
+/**
+ * Zod schemas for saved runs
+ *
+ * Mirrors the RunState type in engine/state.ts. The annotation on
+ * RunStateSchema makes the type-checker flag any drift between the two,
+ * so a RunState change cannot ship without updating the save schema.
+ */
+
+import { z } from 'zod';
+import type { RunState } from '../engine/state';
+import { RuleSetSchema, ScenarioSchema, SectorStateSchema } from '../content/schemas';
+
+// ============================================
+// ENTITY SCHEMAS
+// ============================================
+
+const ResourcesSchema = z.object({
+    paperwork: z.number(),
+    patronage: z.number(),
+    legitimacy: z.number(),
+    auditRisk: z.number(),
+    streetHeat: z.number(),
+});
+
+const UnionStatusSchema = z.object({
+    tag: z.enum(['COMPLAINT', 'RADICAL', 'SCANDAL']),
+    remaining: z.number().int().nullable(),
+    stacks: z.number().int().positive(),
+});
+
+const UnionEntitySchema = z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    sector: z.string(),
+    plausibility: z.number(),
+    loyalty: z.number(),
+    integrity: z.number(),
+    maintenanceCost: z.number(),
+    tags: z.array(z.string()),
+    statuses: z.array(UnionStatusSchema),
+    isIncubated: z.boolean(),
+    isLicensed: z.boolean(),
+    isCracked: z.boolean(),
+    incubationMode: z.enum(['paperwork', 'discipline']).optional(),
+});
+
+const FederationEntitySchema = z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    unionIds: z.array(z.string()),
+    delegates: z.literal(2),
+    recognition: z.enum(['recognized', 'unrecognized']),
+    visibility: z.number(),
+});
+
+const RivalStateSchema = z.object({
+    unions: z.record(z.string(), UnionEntitySchema),
+    federations: z.record(z.string(), FederationEntitySchema),
+});
+
+// ============================================
+// RUN SCHEMAS
+// ============================================
+
+const DelegateRollSchema = z.object({
+    federationId: z.string(),
+    federationName: z.string(),
+    expected: z.number().int(),
+    secured: z.number().int(),
+    rolls: z.array(z.boolean()),
+    cancelled: z.boolean(),
+});
+
+const SeatHolderSchema = z.enum(['player', 'rival']);
+
+const CouncilTallySchema = z.object({
+    seats: z.number().int().positive(),
+    majority: z.number().int().positive(),
+    generalSeats: z.object({
+        player: z.number().int().nonnegative(),
+        rival: z.number().int().nonnegative(),
+        vacant: z.number().int().nonnegative(),
+    }),
+    sectorSeats: z.array(z.object({
+        sector: z.string(),
+        holder: SeatHolderSchema.nullable(),
+    })),
+    swingSeats: z.number().int().nonnegative(),
+    bargained: z.number().int().nonnegative(),
+});
+
+const ElectionResultSchema = z.object({
+    rolls: z.array(DelegateRollSchema),
+    expectedDelegates: z.number().int(),
+    securedDelegates: z.number().int(),
+    bonusDelegates: z.number().int(),
+    rival: z.object({
+        rolls: z.array(DelegateRollSchema),
+        expectedDelegates: z.number().int(),
+        securedDelegates: z.number().int(),
+    }).nullable(),
+    council: CouncilTallySchema,
+    won: z.boolean(),
+});
+
+const EndingSchema = z.enum(['capture', 'partial', 'collapse', 'whistleblower']);
+
+const CollapseInfoSchema = z.object({
+    cause: z.enum(['legitimacy', 'audit', 'street']),
+    cycle: z.number().int(),
+    trigger: z.discriminatedUnion('kind', [
+        z.object({ kind: z.literal('action'), action: z.string() }),
+        z.object({ kind: z.literal('event'), eventId: z.string(), choiceId: z.string() }),
+        z.object({ kind: z.literal('upkeep') }),
+    ]),
+});
+
+const CampaignRunSchema = z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    description: z.string(),
+    chapters: z.array(z.object({
+        id: z.string().min(1),
+        title: z.string(),
+        briefing: z.string(),
+        ruleNotes: z.array(z.string()),
+        rules: RuleSetSchema,
+    })).min(1),
+    chapterIndex: z.number().int().nonnegative(),
+    results: z.array(z.object({
+        chapterId: z.string(),
+        title: z.string(),
+        won: z.boolean(),
+        seats: z.number().int(),
+        majority: z.number().int(),
+        delegates: z.number().int(),
+    })),
+});
+
+export const RunStateSchema: z.ZodType<RunState> = z.object({
+    seed: z.number().int(),
+    rngCursor: z.number().int(),
+    nextEntityId: z.number().int().positive(),
+    cycle: z.number().int().positive(),
+    maxCycles: z.number().int().positive(),
+    phase: z.enum(['menu', 'playing', 'event', 'election', 'interlude', 'ended']),
+    resources: ResourcesSchema,
+    unions: z.record(z.string(), UnionEntitySchema),
+    federations: z.record(z.string(), FederationEntitySchema),
+    eventHistory: z.array(z.string()),
+    choiceHistory: z.array(z.object({
+        eventId: z.string(),
+        choiceId: z.string(),
+        cycle: z.number().int(),
+    })),
+    pendingEvents: z.array(z.object({
+        eventId: z.string(),
+        dueCycle: z.number().int(),
+    })),
+    flags: z.record(z.string(), z.union([z.boolean(), z.number()])),
+    currentEventId: z.string().nullable(),
+    unlockedFootnotes: z.array(z.string()),
+    evidence: z.number().int(),
+    ending: EndingSchema.nullable(),
+    collapse: CollapseInfoSchema.nullable(),
+    bonusDelegates: z.number().int(),
+    cancelledFederationIds: z.array(z.string()),
+    thresholdModifier: z.number().int(),
+    electionResult: ElectionResultSchema.nullable(),
+    showTips: z.boolean(),
+    settings: z.object({
+        allowUndo: z.boolean(),
+        dailyDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+        rival: z.boolean(),
+    }),
+    rules: RuleSetSchema,
+    scenario: ScenarioSchema.nullable(),
+    campaign: CampaignRunSchema.nullable(),
+    rival: RivalStateSchema.nullable(),
+    sectors: z.record(z.string(), SectorStateSchema),
+    unionsGeneratedInCycle: z.boolean(),
+});
+
+/** The single blob stored under the save key */
+export const SaveFileSchema = z.object({
+    saveVersion: z.number().int().positive(),
+    appVersion: z.string(),
+    /** The run in progress (null once it has ended) */
+    runState: RunStateSchema.nullable(),
+    /** Footnotes unlocked across all runs, for the museum */
+    unlocks: z.array(z.string()),
+    /** Actions of the run in progress, so a continued run can still be replayed */
+    actions: z.array(z.looseObject({ type: z.string().min(1) })),
+});
+
+export type SaveFile = z.infer<typeof SaveFileSchema>;
+
+// ============================================
+// DAILY DISPATCH
+// ============================================
+
+const DailyRecordSchema = z.object({
+    seed: z.number().int(),
+    /** Content version the attempt was played against */
+    contentVersion: z.string(),
+    /** Null while the attempt is in progress (or was abandoned) */
+    score: z.number().int().nullable(),
+    ending: EndingSchema.nullable(),
+    cycle: z.number().int().positive(),
+});
+
+/** Daily attempts keyed by UTC date (YYYY-MM-DD) */
+export const DailyHistorySchema = z.record(z.string().regex(/^\d{4}-\d{2}-\d{2}$/), DailyRecordSchema);
+
+export type DailyRecord = z.infer<typeof DailyRecordSchema>;
+export type DailyHistory = z.infer<typeof DailyHistorySchema>;
@@ -0,0 +1,132 @@
+/**
+ * Named save slots and portable saves
+ *
+ * Each slot is a full save blob under `hatchery.slot.<name>`, next to
+ * the autosave. Slots carry their own saveVersion, so they migrate and
+ * validate exactly like the autosave when they are read back.
+ *
+ * A save leaves the browser either as a .json file or as a single-line
+ * string (a prefix plus base64 JSON) that survives chat and issue
+ * trackers. Both come back in through parseSave.
+ */
+
+import type { SaveFile } from './schemas';
+import { parseSave } from './storage';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SaveSlot = {
+    name: string;
+    /** ISO timestamp of the last write */
+    savedAt: string;
+    save: SaveFile & { runState: NonNullable<SaveFile['runState']> };
+};
+
+const SLOT_PREFIX = 'hatchery.slot.';
+
+/** Marks a save string; the digit is the string layout, not the save version */
+const STRING_PREFIX = 'HATCHERY1:';
+
+function getSlotKey(name: string): string {
+    return `${SLOT_PREFIX}${encodeURIComponent(name)}`;
+}
+
+/**
+ * Validate a save for use as a slot
+ * Throws if it holds no run in progress.
+ */
+function toSlotSave(save: SaveFile): SaveSlot['save'] {
+    if (!save.runState) {
+        throw new Error('the save has no run in progress');
+    }
+    return save as SaveSlot['save'];
+}
+
+// ============================================
+// SLOTS
+// ============================================
+
+/**
+ * Every readable slot, most recent first
+ * Slots that fail to migrate or validate are removed with a warning.
+ */
+export function listSlots(): SaveSlot[] {
+    const slots: SaveSlot[] = [];
+
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key?.startsWith(SLOT_PREFIX)) continue;
+        try {
+            const stored = JSON.parse(localStorage.getItem(key) ?? '') as { savedAt?: unknown; save?: unknown };
+            slots.push({
+                name: decodeURIComponent(key.slice(SLOT_PREFIX.length)),
+                savedAt: typeof stored.savedAt === 'string' ? stored.savedAt : '',
+                save: toSlotSave(parseSave(stored.save)),
+            });
+        } catch (err) {
+            console.warn(`[slots] Discarding unreadable slot ${key}:`, err);
+            localStorage.removeItem(key);
+            i--;
+        }
+    }
+
+    return slots.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+/** Write a save to a named slot, replacing any slot of the same name */
+export function writeSlot(name: string, save: SaveFile): void {
+    const entry = { savedAt: new Date().toISOString(), save: toSlotSave(save) };
+    localStorage.setItem(getSlotKey(name), JSON.stringify(entry));
+}
+
+export function deleteSlot(name: string): void {
+    localStorage.removeItem(getSlotKey(name));
+}
+
+// ============================================
+// EXPORT / IMPORT
+// ============================================
+
+/** Encode a save as a single-line portable string */
+export function exportSaveString(save: SaveFile): string {
+    const bytes = new TextEncoder().encode(JSON.stringify(save));
+    let binary = '';
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte);
+    }
+    return `${STRING_PREFIX}${btoa(binary)}`;
+}
+
+/**
+ * Read a save from a portable string or pasted .json text
+ * Runs the same migrations and schema checks as the autosave.
+ */
+export function importSaveString(text: string): SaveSlot['save'] {
+    const trimmed = text.trim();
+    let data: unknown;
+
+    try {
+        if (trimmed.startsWith(STRING_PREFIX)) {
+            const binary = atob(trimmed.slice(STRING_PREFIX.length));
+            const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+            data = JSON.parse(new TextDecoder().decode(bytes));
+        } else {
+            data = JSON.parse(trimmed);
+        }
+    } catch {
+        throw new Error('Invalid save: not a save string or save file');
+    }
+
+    return importSave(data);
+}
+
+/** Validate an imported save (e.g. a parsed .json file) */
+export function importSave(data: unknown): SaveSlot['save'] {
+    try {
+        return toSlotSave(parseSave(data));
+    } catch (err) {
+        throw new Error(`Invalid save: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+}
@@ -0,0 +1,139 @@
+/**
+ * localStorage persistence
+ *
+ * One blob per save version under `hatchery.save.v<N>`: the run in
+ * progress, museum unlocks across runs, the app version that wrote it,
+ * and the run's action log. Older saves are migrated on load; anything
+ * that fails to parse, migrate or validate is discarded with a warning
+ * so a bad save never bricks the app.
+ */
+
+import type { RunState } from '../engine/state';
+import type { UndoAction } from '../engine/undo';
+import { SaveFileSchema, type SaveFile } from './schemas';
+import { SAVE_VERSION, migrateSave, type RawSave } from './migrations';
+
+// ============================================
+// KEYS
+// ============================================
+
+const KEY_PREFIX = 'hatchery.save.v';
+
+/** Storage key for a given save version */
+export function getSaveKey(version: number = SAVE_VERSION): string {
+    return `${KEY_PREFIX}${version}`;
+}
+
+/** Build that wrote the save (injected by Vite; 'dev' elsewhere) */
+const APP_VERSION = typeof __APP_VERSION__ !== 'undefined' ? __APP_VERSION__ : 'dev';
+
+// ============================================
+// LOADING
+// ============================================
+
+export type LoadResult =
+    | { status: 'empty' }
+    | { status: 'loaded'; save: SaveFile }
+    /** A save existed but could not be used; it has been removed */
+    | { status: 'reset'; warning: string };
+
+/** Find the newest save key present, current version first */
+function findStoredVersion(): number | null {
+    for (let version = SAVE_VERSION; version >= 1; version--) {
+        if (localStorage.getItem(getSaveKey(version)) !== null) return version;
+    }
+    return null;
+}
+
+/** Remove every save version from storage */
+export function clearSaves(): void {
+    for (let version = SAVE_VERSION; version >= 1; version--) {
+        localStorage.removeItem(getSaveKey(version));
+    }
+}
+
+/**
+ * Migrate and validate a parsed save blob
+ * `version` defaults to the blob's own saveVersion. Throws with every
+ * schema issue if the save is unusable.
+ */
+export function parseSave(data: unknown, version?: number): SaveFile {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        throw new Error('not a save file');
+    }
+    const raw = data as RawSave;
+    const fromVersion = version ?? raw.saveVersion;
+    if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 1) {
+        throw new Error('missing save version');
+    }
+    if (fromVersion > SAVE_VERSION) {
+        throw new Error(`save version ${fromVersion} is newer than this build (${SAVE_VERSION})`);
+    }
+
+    const result = SaveFileSchema.safeParse(migrateSave(raw, fromVersion));
+    if (!result.success) {
+        throw new Error(result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; '));
+    }
+    return result.data;
+}
+
+/**
+ * Load, migrate and validate the stored save
+ * Migrated saves are written back under the current key.
+ */
+export function loadSave(): LoadResult {
+    const version = findStoredVersion();
+    if (version === null) return { status: 'empty' };
+
+    try {
+        const save = parseSave(JSON.parse(localStorage.getItem(getSaveKey(version)) ?? ''), version);
+
+        if (version !== SAVE_VERSION) {
+            clearSaves();
+            writeSave(save);
+        }
+        return { status: 'loaded', save };
+    } catch (err) {
+        console.warn('[storage] Discarding unreadable save:', err);
+        clearSaves();
+        return {
+            status: 'reset',
+            warning: `Your saved run could not be loaded and has been reset (${err instanceof Error ? err.message : 'unknown error'}).`,
+        };
+    }
+}
+
+// ============================================
+// SAVING
+// ============================================
+
+function writeSave(save: SaveFile): void {
+    try {
+        localStorage.setItem(getSaveKey(), JSON.stringify(save));
+    } catch (err) {
+        // Quota exceeded or storage disabled: keep playing without saves
+        console.warn('[storage] Could not write save:', err);
+    }
+}
+
+/**
+ * Build a save blob for the current run
+ * A run that has ended (or not started) is left out; museum unlocks are kept.
+ */
+export function createSave(state: RunState, actions: UndoAction[], previousUnlocks: string[]): SaveFile {
+    const inProgress = state.phase !== 'menu' && state.phase !== 'ended';
+    return {
+        saveVersion: SAVE_VERSION,
+        appVersion: APP_VERSION,
+        runState: inProgress ? state : null,
+        unlocks: [...new Set([...previousUnlocks, ...state.unlockedFootnotes])],
+        actions: inProgress ? actions : [],
+    };
+}
+
+/** Autosave the current run */
+export function saveRun(state: RunState, actions: UndoAction[], previousUnlocks: string[]): SaveFile {
+    const save = createSave(state, actions, previousUnlocks);
+    writeSave(save);
+    return save;
+}
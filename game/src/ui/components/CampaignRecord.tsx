@@ -0,0 +1,32 @@
+/**
+ * CampaignRecord Component
+ *
+ * Elections of a campaign so far, with the ones still to come.
+ */
+
+import type { CampaignRun } from '../../engine/campaign';
+import { getCouncilMajority } from '../../engine/council';
+import styles from './CampaignRecord.module.css';
+
+export function CampaignRecord({ campaign }: { campaign: CampaignRun }) {
+    return (
+        <ol className={styles.record}>
+            {campaign.chapters.map((chapter, index) => {
+                const result = campaign.results[index];
+                const className = result
+                    ? `${styles.chapter} ${result.won ? styles.won : styles.lost}`
+                    : styles.chapter;
+                return (
+                    <li key={chapter.id} className={className}>
+                        <span className={styles.title}>{chapter.title}</span>
+                        <span className={styles.outcome}>
+                            {result
+                                ? `${result.won ? 'Won' : 'Lost'} ${result.seats}/${result.majority} seats`
+                                : `${getCouncilMajority(chapter.rules.council)} seats to win`}
+                        </span>
+                    </li>
+                );
+            })}
+        </ol>
+    );
+}
@@ -0,0 +1,66 @@
+/**
+ * DailyDispatch Component
+ *
+ * Today's daily run on the start menu: one attempt per UTC day on a
+ * shared seed, with recent scores kept on this machine.
+ */
+
+import { useGame } from '../../app/GameProvider';
+import { getDailyDate, getDailySeed } from '../../engine/daily';
+import { encodeSeed } from '../../engine/seedCode';
+import styles from './DailyDispatch.module.css';
+
+/** Past days shown under today's entry */
+const HISTORY_LENGTH = 5;
+
+export function DailyDispatch() {
+    const { dailyHistory, savedRun, startDaily } = useGame();
+
+    const today = getDailyDate();
+    const record = dailyHistory[today];
+    const pastDays = Object.keys(dailyHistory)
+        .filter(date => date !== today)
+        .sort()
+        .reverse()
+        .slice(0, HISTORY_LENGTH);
+
+    let status: React.ReactNode;
+    if (!record) {
+        status = (
+            <button className={styles.playButton} onClick={startDaily}>
+                📰 Play today's Dispatch
+            </button>
+        );
+    } else if (record.score !== null) {
+        status = <span className={styles.score}>Today's score: {record.score} ({record.ending})</span>;
+    } else if (savedRun?.settings.dailyDate === today) {
+        status = <span className={styles.note}>Attempt in progress. Continue your run above.</span>;
+    } else {
+        status = <span className={styles.note}>Today's attempt was abandoned. Come back tomorrow.</span>;
+    }
+
+    return (
+        <section className={styles.container}>
+            <div className={styles.header}>
+                <h2 className={styles.title}>Daily Dispatch · {today} UTC</h2>
+                <span className={styles.seed}>{encodeSeed(getDailySeed(today))}</span>
+            </div>
+            <p className={styles.rules}>One scored attempt per day. Same seed for everyone, no undo.</p>
+            {status}
+
+            {pastDays.length > 0 && (
+                <ul className={styles.history}>
+                    {pastDays.map(date => {
+                        const past = dailyHistory[date];
+                        return (
+                            <li key={date}>
+                                <span>{date}</span>
+                                <span>{past.score !== null ? `${past.score} (${past.ending})` : 'abandoned'}</span>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </section>
+    );
+}
@@ -4,24 +4,60 @@
  * Displays the current event with choices and applies effects
  */
 
+import { useState } from 'react';
 import { useGame, useCurrentEvent } from '../../app/GameProvider';
 import { getEligibleChoices } from '../../content/loadContent';
+import type { SectorEffects, TargetedEffect } from '../../content/types';
+import { describeTarget, getTargetableUnions, needsPlayerPick } from '../../engine/targets';
 import styles from './EventModal.module.css';
 
 export function EventModal() {
     const { state, chooseEventOption } = useGame();
     const event = useCurrentEvent();
+    // Choice waiting for the player to pick its target union
+    const [pickingChoiceId, setPickingChoiceId] = useState<string | null>(null);
 
     if (!event || state.phase !== 'event') {
         return null;
     }
 
     const eligibleChoices = getEligibleChoices(event, state);
+    const targetableUnions = getTargetableUnions(state);
+    const pickingChoice = eligibleChoices.find(c => c.id === pickingChoiceId);
 
     const handleChoice = (choiceId: string) => {
+        const choice = eligibleChoices.find(c => c.id === choiceId);
+        if (choice && needsPlayerPick(choice.targets) && targetableUnions.length > 0) {
+            setPickingChoiceId(choiceId);
+            return;
+        }
         chooseEventOption(event.id, choiceId);
     };
 
+    const handlePick = (unionId: string) => {
+        if (!pickingChoice) return;
+        setPickingChoiceId(null);
+        chooseEventOption(event.id, pickingChoice.id, unionId);
+    };
+
+    const summarizeTarget = (effect: TargetedEffect): string => {
+        const parts: string[] = [];
+        if (effect.crack) parts.push('crack');
+        for (const [key, value] of Object.entries(effect.stats ?? {})) {
+            parts.push(`${key} ${value > 0 ? '+' : ''}${value}`);
+        }
+        parts.push(...(effect.statuses ?? []));
+        parts.push(...(effect.addTags ?? []).map(tag => `+${tag}`));
+        parts.push(...(effect.removeTags ?? []).map(tag => `-${tag}`));
+        if (effect.visibility) parts.push(`👁️ ${effect.visibility > 0 ? '+' : ''}${effect.visibility}`);
+        return `🎯 ${describeTarget(effect.target)}: ${parts.join(', ')}`;
+    };
+
+    const summarizeSector = (sector: string, effects: SectorEffects): string => {
+        const parts = Object.entries(effects).map(([key, value]) => `${key} ${value > 0 ? '+' : ''}${value}`);
+        return `🏭 ${sector}: ${parts.join(', ')}`;
+    };
+
     const formatEffect = (key: string, value: number): string => {
         const sign = value > 0 ? '+' : '';
         const icons: Record<string, string> = {
@@ -30,6 +66,8 @@ export function EventModal() {
             legitimacy: '⚖️',
             auditRisk: '🔍',
             streetHeat: '🔥',
+            evidence: '📁',
+            visibility: '👁️',
         };
         return `${icons[key] || ''} ${sign}${value}`;
     };
@@ -60,27 +98,105 @@ export function EventModal() {
 
                 <p className={styles.flavor}>{event.flavor}</p>
 
-                <div className={styles.choices}>
-                    {eligibleChoices.map((choice) => (
-                        <button
-                            key={choice.id}
-                            className={styles.choice}
-                            onClick={() => handleChoice(choice.id)}
-                        >
-                            <span className={styles.choiceLabel}>{choice.label}</span>
-                            <div className={styles.effects}>
-                                {Object.entries(choice.effects).map(([key, value]) => (
-                                    <span
-                                        key={key}
-                                        className={`${styles.effect} ${value > 0 ? styles.positive : styles.negative}`}
-                                    >
-                                        {formatEffect(key, value)}
-                                    </span>
-                                ))}
-                            </div>
+                {pickingChoice ? (
+                    <div className={styles.choices}>
+                        <p className={styles.pickPrompt}>{pickingChoice.label}: choose a union</p>
+                        {targetableUnions.map(union => (
+                            <button
+                                key={union.id}
+                                className={styles.choice}
+                                onClick={() => handlePick(union.id)}
+                            >
+                                <span className={styles.choiceLabel}>{union.name}</span>
+                                <div className={styles.effects}>
+                                    <span className={styles.effect}>{union.sector}</span>
+                                    <span className={styles.effect}>Loyalty {union.loyalty}</span>
+                                    <span className={styles.effect}>Integrity {union.integrity}</span>
+                                </div>
+                            </button>
+                        ))}
+                        <button className={styles.backButton} onClick={() => setPickingChoiceId(null)}>
+                            ← Back
                         </button>
-                    ))}
-                </div>
+                    </div>
+                ) : (
+                    <div className={styles.choices}>
+                        {eligibleChoices.map((choice) => (
+                            <button
+                                key={choice.id}
+                                className={styles.choice}
+                                onClick={() => handleChoice(choice.id)}
+                            >
+                                <span className={styles.choiceLabel}>{choice.label}</span>
+                                <div className={styles.effects}>
+                                    {Object.entries(choice.effects).map(([key, value]) => (
+                                        <span
+                                            key={key}
+                                            className={`${styles.effect} ${value > 0 ? styles.positive : styles.negative}`}
+                                        >
+                                            {formatEffect(key, value)}
+                                        </span>
+                                    ))}
+                                    {!!choice.visibility && (
+                                        <span className={`${styles.effect} ${choice.visibility < 0 ? styles.positive : styles.negative}`}>
+                                            {formatEffect('visibility', choice.visibility)}
+                                        </span>
+                                    )}
+                                    {choice.statuses?.map((tag, i) => (
+                                        <span key={`${tag}-${i}`} className={`${styles.effect} ${styles.negative}`}>
+                                            🏷️ {tag}
+                                        </span>
+                                    ))}
+                                    {choice.targets?.map((effect, i) => (
+                                        <span key={`target-${i}`} className={`${styles.effect} ${styles.targeted}`}>
+                                            {summarizeTarget(effect)}
+                                        </span>
+                                    ))}
+                                    {Object.entries(choice.sectors ?? {}).map(([sector, effects]) => (
+                                        <span key={`sector-${sector}`} className={`${styles.effect} ${styles.targeted}`}>
+                                            {summarizeSector(sector, effects)}
+                                        </span>
+                                    ))}
+                                    {!!choice.delegates?.bonus && (
+                                        <span className={`${styles.effect} ${choice.delegates.bonus > 0 ? styles.positive : styles.negative}`}>
+                                            🗳️ {choice.delegates.bonus > 0 ? '+' : ''}{choice.delegates.bonus} bonus delegates
+                                        </span>
+                                    )}
+                                    {choice.delegates?.cancelFederation && (
+                                        <span className={`${styles.effect} ${styles.negative}`}>
+                                            🗳️ A federation's delegates cancelled
+                                        </span>
+                                    )}
+                                    {!!choice.delegates?.threshold && (
+                                        <span className={`${styles.effect} ${choice.delegates.threshold < 0 ? styles.positive : styles.negative}`}>
+                                            🎯 Majority {choice.delegates.threshold > 0 ? '+' : ''}{choice.delegates.threshold}
+                                        </span>
+                                    )}
+                                    {state.rival && choice.rival?.sabotage && (
+                                        <span className={`${styles.effect} ${styles.positive}`}>
+                                            🕵️ A rival federation loses recognition
+                                        </span>
+                                    )}
+                                    {state.rival && choice.rival?.poach && (
+                                        <span className={`${styles.effect} ${styles.positive}`}>
+                                            🕵️ A licensed rival union comes over to you
+                                        </span>
+                                    )}
+                                    {choice.schedules?.map((scheduled, i) => (
+                                        <span key={`schedule-${i}`} className={`${styles.effect} ${styles.scheduled}`}>
+                                            ⏳ Consequences in {scheduled.delay} {scheduled.delay === 1 ? 'cycle' : 'cycles'}
+                                        </span>
+                                    ))}
+                                    {choice.evidence && (
+                                        <span className={`${styles.effect} ${styles.positive}`}>
+                                            {formatEffect('evidence', choice.evidence)}
+                                        </span>
+                                    )}
+                                </div>
+                            </button>
+                        ))}
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,185 @@
+/**
+ * FederationCard Component
+ *
+ * Displays a federation with its members, recognition status and
+ * management actions (add, expel, dissolve, merge, split).
+ */
+
+import { useState } from 'react';
+import type { FederationEntity } from '../../engine/state';
+import { getUnionFederation } from '../../engine/state';
+import { getRecognitionChance } from '../../engine/recognition';
+import { canPay, formatCost } from '../../engine/rules';
+import { useGame } from '../../app/GameProvider';
+import styles from './FederationCard.module.css';
+
+type Props = {
+    federation: FederationEntity;
+    /** Unions currently selected on the dashboard */
+    selectedUnionIds: string[];
+    /** Called after an action consumed the selection */
+    onClearSelection: () => void;
+};
+
+export function FederationCard({ federation, selectedUnionIds, onClearSelection }: Props) {
+    const {
+        state,
+        applyRecognition,
+        addToFederation,
+        expelFromFederation,
+        dissolveFederation,
+        mergeFederations,
+        splitFederation,
+        showExplainer,
+    } = useGame();
+    const { resources } = state;
+    const { costs, federation: federationRules } = state.rules;
+    const [mergeTargetId, setMergeTargetId] = useState('');
+
+    const otherFederations = Object.values(state.federations).filter(f => f.id !== federation.id);
+
+    // Selected unions not yet in any federation can be added here
+    const addableIds = selectedUnionIds.filter(id => !getUnionFederation(state, id));
+    // Selected members of this federation can be split off
+    const splitIds = selectedUnionIds.filter(id => federation.unionIds.includes(id));
+
+    const canAdd = addableIds.length > 0 && canPay(resources, costs.addToFederation, addableIds.length);
+    const canExpel = federation.unionIds.length > 2 && canPay(resources, costs.expelFromFederation);
+    const canDissolve = canPay(resources, costs.dissolveFederation);
+    const canMerge = mergeTargetId !== '' && canPay(resources, costs.mergeFederations);
+    const canSplit = splitIds.length >= 2 &&
+        federation.unionIds.length - splitIds.length >= 2 &&
+        canPay(resources, costs.splitFederation);
+
+    const handleAdd = () => {
+        for (const unionId of addableIds) {
+            addToFederation(federation.id, unionId);
+        }
+        onClearSelection();
+    };
+
+    const handleSplit = () => {
+        splitFederation(federation.id, splitIds);
+        onClearSelection();
+    };
+
+    const handleMerge = () => {
+        if (!canMerge) return;
+        mergeFederations(federation.id, mergeTargetId);
+        setMergeTargetId('');
+    };
+
+    return (
+        <div className={styles.card}>
+            <div className={styles.header}>
+                <h3>{federation.name}</h3>
+                <span className={styles.delegateBadge}>🗳️ {federation.delegates}</span>
+            </div>
+
+            <div className={styles.meta}>
+                <span className={federation.recognition === 'recognized' ? styles.recognized : styles.unrecognized}>
+                    {federation.recognition}
+                </span>
+                <span>{federation.unionIds.length} unions</span>
+                <span
+                    className={federation.visibility >= state.rules.recognition.reviewVisibility ? styles.unrecognized : undefined}
+                    onClick={() => showExplainer('Visibility')}
+                    style={{ cursor: 'help' }}
+                >
+                    👁️ {federation.visibility}% visible
+                </span>
+                {state.cancelledFederationIds.includes(federation.id) && (
+                    <span className={styles.unrecognized}>delegates cancelled</span>
+                )}
+            </div>
+
+            {/* Members */}
+            <ul className={styles.members}>
+                {federation.unionIds.map(unionId => {
+                    const union = state.unions[unionId];
+                    return (
+                        <li key={unionId} className={styles.member}>
+                            <span className={union?.isCracked ? styles.crackedMember : undefined}>
+                                {union?.name ?? 'Unknown union'}
+                            </span>
+                            <button
+                                className={styles.expelButton}
+                                onClick={() => expelFromFederation(federation.id, unionId)}
+                                disabled={!canExpel}
+                                title={canExpel
+                                    ? `Expel member (${formatCost(costs.expelFromFederation)}, -${federationRules.expelLegitimacyLoss} Legitimacy, +${federationRules.expelAuditRisk} Audit Risk)`
+                                    : 'A federation needs at least 2 members and the Patronage to expel'}
+                            >
+                                ✕
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+
+            {/* Management Actions */}
+            <div className={styles.actions}>
+                {federation.recognition === 'unrecognized' && (
+                    <button
+                        className={styles.button}
+                        onClick={() => applyRecognition(federation.id)}
+                        disabled={!canPay(resources, costs.applyRecognition)}
+                        title={`${formatCost(costs.applyRecognition)}. A rejection adds ${state.rules.recognition.rejectedAuditRisk} Audit Risk.`}
+                    >
+                        📨 Apply for Recognition ({getRecognitionChance(federation, state.rules)}%)
+                    </button>
+                )}
+                {addableIds.length > 0 && (
+                    <button
+                        className={styles.button}
+                        onClick={handleAdd}
+                        disabled={!canAdd}
+                        title={`Add selected unions (${formatCost(costs.addToFederation)} and +${federationRules.addAuditRisk} Audit Risk each)`}
+                    >
+                        ➕ Add selected ({addableIds.length})
+                    </button>
+                )}
+                {splitIds.length > 0 && (
+                    <button
+                        className={styles.button}
+                        onClick={handleSplit}
+                        disabled={!canSplit}
+                        title={`Split selected members into a new federation (${formatCost(costs.splitFederation)}, +${federationRules.splitAuditRisk} Audit Risk). Both halves need 2+ members.`}
+                    >
+                        ✂️ Split off selected ({splitIds.length})
+                    </button>
+                )}
+                {otherFederations.length > 0 && (
+                    <div className={styles.mergeControls}>
+                        <select
+                            value={mergeTargetId}
+                            onChange={(e) => setMergeTargetId(e.target.value)}
+                            aria-label="Merge target"
+                        >
+                            <option value="">Merge into…</option>
+                            {otherFederations.map(f => (
+                                <option key={f.id} value={f.id}>{f.name}</option>
+                            ))}
+                        </select>
+                        <button
+                            className={styles.button}
+                            onClick={handleMerge}
+                            disabled={!canMerge}
+                            title={`Merge this federation into another (${formatCost(costs.mergeFederations)}, +${federationRules.mergeAuditRisk} Audit Risk). Its delegates are lost.`}
+                        >
+                            🔗 Merge
+                        </button>
+                    </div>
+                )}
+                <button
+                    className={`${styles.button} ${styles.dissolveButton}`}
+                    onClick={() => dissolveFederation(federation.id)}
+                    disabled={!canDissolve}
+                    title={`Dissolve federation and free its members (${formatCost(costs.dissolveFederation)}, -${federationRules.dissolveLegitimacyLoss} Legitimacy, +${federationRules.dissolveAuditRisk} Audit Risk if recognized)`}
+                >
+                    💼 Dissolve
+                </button>
+            </div>
+        </div>
+    );
+}
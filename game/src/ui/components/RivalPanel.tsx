@@ -0,0 +1,44 @@
+/**
+ * RivalPanel Component
+ *
+ * What the rival hatchery has on the registry: its federations, whether
+ * the Ministry recognizes them, and how loyal their members are.
+ */
+
+import type { RivalState } from '../../engine/rival';
+import { getRivalDelegates } from '../../engine/rival';
+import { getFederationReliability } from '../../engine/state';
+import styles from './RivalPanel.module.css';
+
+export function RivalPanel({ rival }: { rival: RivalState }) {
+    const unions = Object.values(rival.unions).filter(u => !u.isCracked);
+    const federations = Object.values(rival.federations);
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.summary}>
+                <span>🗳️ {getRivalDelegates(rival)} recognized delegates</span>
+                <span>🏛️ {federations.length} federations</span>
+                <span>🥚 {unions.length} unions ({unions.filter(u => u.isLicensed).length} licensed)</span>
+            </div>
+
+            {federations.length === 0 ? (
+                <p className={styles.empty}>No rival federations yet. Their paperwork is still in the post.</p>
+            ) : (
+                <ul className={styles.federations}>
+                    {federations.map(federation => (
+                        <li key={federation.id} className={styles.federation}>
+                            <span className={styles.name}>{federation.name}</span>
+                            <span className={federation.recognition === 'recognized' ? styles.recognized : styles.unrecognized}>
+                                {federation.recognition}
+                            </span>
+                            <span className={styles.meta}>
+                                {federation.unionIds.length} unions · ~{getFederationReliability(federation, rival.unions).toFixed(1)}/{federation.delegates} loyal
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,136 @@
+/**
+ * SaveSlotList Component
+ *
+ * Named save slots on the start menu: load, export as a portable string
+ * or .json file, delete, and import saves from another machine.
+ */
+
+import { useState } from 'react';
+import { useGame } from '../../app/GameProvider';
+import type { Resources } from '../../engine/state';
+import { encodeSeed } from '../../engine/seedCode';
+import { exportSaveString, importSave, importSaveString, type SaveSlot } from '../../persistence/slots';
+import { downloadJson, readJsonFile } from '../files/download';
+import styles from './SaveSlotList.module.css';
+
+const ICONS: Record<keyof Resources, string> = {
+    paperwork: '📋',
+    patronage: '🤝',
+    legitimacy: '⚖️',
+    auditRisk: '🔍',
+    streetHeat: '🔥',
+};
+
+export function SaveSlotList() {
+    const { saveSlots, loadSlot, deleteSaveSlot, importToSlot } = useGame();
+    const [exported, setExported] = useState<{ name: string; text: string } | null>(null);
+    const [importText, setImportText] = useState('');
+    const [importError, setImportError] = useState<string | null>(null);
+
+    const handleExportString = (slot: SaveSlot) => {
+        const text = exportSaveString(slot.save);
+        setExported({ name: slot.name, text });
+        navigator.clipboard?.writeText(text).catch(() => {
+            // The string stays on screen to copy by hand
+        });
+    };
+
+    const handleExportFile = (slot: SaveSlot) => {
+        const { seed, cycle } = slot.save.runState;
+        downloadJson(`hatchery-save-${seed}-cycle${cycle}.json`, slot.save);
+    };
+
+    const storeImport = (save: SaveSlot['save']) => {
+        importToSlot(`Imported: ${encodeSeed(save.runState.seed)}, cycle ${save.runState.cycle}`, save);
+        setImportText('');
+        setImportError(null);
+    };
+
+    const handleImportText = () => {
+        try {
+            storeImport(importSaveString(importText));
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : 'Could not read save');
+        }
+    };
+
+    const handleImportFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            storeImport(importSave(await readJsonFile(file)));
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : 'Could not read save file');
+        }
+    };
+
+    return (
+        <section className={styles.container}>
+            <h2 className={styles.title}>Save Slots</h2>
+
+            {saveSlots.length === 0 ? (
+                <p className={styles.empty}>No saved slots. Use 💾 Save during a run.</p>
+            ) : (
+                <ul className={styles.slots}>
+                    {saveSlots.map(slot => {
+                        const run = slot.save.runState;
+                        return (
+                            <li key={slot.name} className={styles.slot}>
+                                <div className={styles.slotHeader}>
+                                    <span className={styles.name}>{slot.name}</span>
+                                    <span className={styles.meta}>
+                                        {encodeSeed(run.seed)} · Cycle {run.cycle}/{run.maxCycles}
+                                    </span>
+                                </div>
+                                <div className={styles.resources}>
+                                    {(Object.keys(ICONS) as (keyof Resources)[]).map(key => (
+                                        <span key={key}>{ICONS[key]} {run.resources[key]}</span>
+                                    ))}
+                                </div>
+                                <div className={styles.actions}>
+                                    <button onClick={() => loadSlot(slot.name)}>Load</button>
+                                    <button onClick={() => handleExportString(slot)} title="Copy as a portable string">
+                                        Copy string
+                                    </button>
+                                    <button onClick={() => handleExportFile(slot)}>Download .json</button>
+                                    <button className={styles.deleteButton} onClick={() => deleteSaveSlot(slot.name)}>
+                                        Delete
+                                    </button>
+                                </div>
+                                {exported?.name === slot.name && (
+                                    <textarea
+                                        className={styles.exported}
+                                        readOnly
+                                        value={exported.text}
+                                        onFocus={(e) => e.target.select()}
+                                        aria-label="Exported save string"
+                                    />
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            <div className={styles.import}>
+                <textarea
+                    placeholder="Paste a save string or .json to import"
+                    value={importText}
+                    onChange={(e) => setImportText(e.target.value)}
+                    aria-label="Save to import"
+                />
+                <div className={styles.actions}>
+                    <button onClick={handleImportText} disabled={importText.trim() === ''}>
+                        Import
+                    </button>
+                    <input
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={(e) => handleImportFile(e.target.files?.[0])}
+                        aria-label="Import save file"
+                    />
+                </div>
+                {importError && <span className={styles.error}>{importError}</span>}
+            </div>
+        </section>
+    );
+}
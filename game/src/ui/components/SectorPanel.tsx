@@ -0,0 +1,52 @@
+/**
+ * SectorPanel Component
+ *
+ * The sector economies that matter to the player: every sector the
+ * hatchery has unions in, and any other where unrest is running high.
+ */
+
+import type { RunState } from '../../engine/state';
+import styles from './SectorPanel.module.css';
+
+/** Unrest from which a sector is shown even without the player's unions in it */
+const RESTLESS_UNREST = 40;
+
+export function SectorPanel({ state }: { state: RunState }) {
+    const { economy } = state.rules;
+    const unionCounts: Record<string, number> = {};
+    for (const union of Object.values(state.unions)) {
+        if (!union.isCracked) unionCounts[union.sector] = (unionCounts[union.sector] ?? 0) + 1;
+    }
+
+    const sectors = Object.entries(state.sectors)
+        .filter(([name, sector]) => unionCounts[name] || sector.unrest >= RESTLESS_UNREST)
+        .sort(([, a], [, b]) => b.unrest - a.unrest);
+
+    if (sectors.length === 0) {
+        return <p className={styles.empty}>No unions on the registry yet. The economy carries on without you.</p>;
+    }
+
+    return (
+        <ul className={styles.sectors}>
+            {sectors.map(([name, sector]) => {
+                const crackRisk = Math.floor(sector.unrest * economy.crackPerUnrest);
+                const pressured = sector.employerStrength >= economy.employerPressure && economy.employerLoyaltyLoss > 0;
+                return (
+                    <li key={name} className={styles.sector}>
+                        <span className={styles.name}>{name}</span>
+                        <span className={styles.meta}>
+                            {unionCounts[name] ?? 0} unions · {sector.workforce}k workers
+                        </span>
+                        <span className={sector.unrest >= RESTLESS_UNREST ? styles.restless : styles.stat}>
+                            ✊ Unrest {sector.unrest}{crackRisk > 0 && ` (+${crackRisk}% crack)`}
+                        </span>
+                        <span className={pressured ? styles.restless : styles.stat}>
+                            🏭 Employers {sector.employerStrength}{pressured && ` (-${economy.employerLoyaltyLoss} loyalty)`}
+                        </span>
+                        <span className={styles.stat}>📈 Health {sector.health}</span>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
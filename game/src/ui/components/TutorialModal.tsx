@@ -1,9 +1,10 @@
 
 import styles from './TutorialModal.module.css';
 import { useGame } from '../../app/GameProvider';
+import { getCouncilMajority } from '../../engine/council';
 
 export function TutorialModal() {
-    const { dismissTutorial } = useGame();
+    const { state, dismissTutorial } = useGame();
 
     return (
         <div className={styles.overlay}>
@@ -17,8 +18,8 @@ export function TutorialModal() {
                     <section className={styles.section}>
                         <h3>🛠 The Goal</h3>
                         <p>
-                            <strong>Win the election.</strong> You need <strong>6 Delegates</strong> to secure a majority.
-                            Delegates are ONLY generated by <strong>Federations</strong>.
+                            <strong>Win the election.</strong> You need <strong>{getCouncilMajority(state.rules.council)} of the council's {state.rules.council.seats} seats</strong> for a majority.
+                            Seats are won by delegates, and delegates are ONLY generated by <strong>Federations</strong>.
                             Individual unions do NOT vote.
                         </p>
                     </section>
@@ -7,9 +7,17 @@
 
 import type { UnionEntity } from '../../engine/state';
 import { getLicenseChance, getCrackRisk, getDelegateReliability, getDissolveReward, getReassignReward } from '../../engine/state';
+import { STATUS_DEFINITIONS } from '../../engine/status';
+import { applyUnionEffects, canAfford } from '../../engine/effects';
+import { canPay, formatCost } from '../../engine/rules';
 import { useGame } from '../../app/GameProvider';
 import styles from './UnionCard.module.css';
 
+/** A change with its sign, e.g. +5 or -10 */
+function signed(value: number): string {
+    return value >= 0 ? `+${value}` : String(value);
+}
+
 type Props = {
     union: UnionEntity;
     isSelected?: boolean;
@@ -18,28 +26,28 @@ type Props = {
 };
 
 export function UnionCard({ union, isSelected, onSelect, isInFederation }: Props) {
-    const { state, licenseUnion, incubateUnion, dissolveUnion, reassignUnion, showExplainer } = useGame();
-    const { resources } = state;
+    const { state, licenseUnion, incubateUnion, dissolveUnion, reassignUnion, resolveStatus, showExplainer } = useGame();
+    const { resources, rules } = state;
 
-    const canLicense = !union.isLicensed && !union.isCracked && resources.paperwork >= 1;
-    const canIncubate = !union.isIncubated && !union.isCracked && resources.patronage >= 2;
+    const canLicense = !union.isLicensed && !union.isCracked && canPay(resources, rules.costs.license);
+    const canIncubate = !union.isIncubated && !union.isCracked && canPay(resources, rules.costs.incubate);
 
     // Calculate probabilities
-    const licenseChance = getLicenseChance(union);
-    const crackRisk = getCrackRisk(union);
+    const licenseChance = getLicenseChance(union, rules);
+    const crackRisk = getCrackRisk(union, rules, state.sectors);
     const delegateReliability = getDelegateReliability(union);
 
     // Calculate what incubation would change
-    const paperworkPreview = {
-        licenseChange: Math.min(100, union.plausibility + 15) * 0.6 + 30 - licenseChance,
-        crackChange: crackRisk - Math.max(5, 40 - Math.floor((union.integrity + 10) * 0.35)),
-        loyaltyChange: -10,
-    };
-    const disciplinePreview = {
-        licenseChange: Math.max(0, union.plausibility - 10) * 0.6 + 30 - licenseChance,
-        crackChange: crackRisk - Math.max(5, 40 - Math.floor((union.integrity + 10) * 0.35)),
-        loyaltyChange: 15,
+    const previewIncubation = (mode: 'paperwork' | 'discipline') => {
+        const incubated = applyUnionEffects(union, rules.incubation[mode]);
+        return {
+            licenseChange: getLicenseChance(incubated, rules) - licenseChance,
+            crackChange: getCrackRisk(incubated, rules, state.sectors) - crackRisk,
+            loyaltyChange: incubated.loyalty - union.loyalty,
+        };
     };
+    const paperworkPreview = previewIncubation('paperwork');
+    const disciplinePreview = previewIncubation('discipline');
 
     const handleLicense = (e: React.MouseEvent) => {
         e.stopPropagation();
@@ -177,6 +185,18 @@ export function UnionCard({ union, isSelected, onSelect, isInFederation }: Props
                         </span>
                     );
                 })}
+                {union.statuses.map(status => (
+                    <span
+                        key={status.tag}
+                        className={`${styles.tag} ${styles.statusTag}`}
+                        onClick={(e) => { e.stopPropagation(); showExplainer(status.tag); }}
+                        style={{ cursor: 'help' }}
+                    >
+                        {status.tag}
+                        {status.stacks > 1 && ` ×${status.stacks}`}
+                        {status.remaining !== null && ` (${status.remaining})`}
+                    </span>
+                ))}
                 {union.isLicensed && (
                     <span
                         className={`${styles.tag} ${styles.licensedTag}`}
@@ -209,7 +229,7 @@ export function UnionCard({ union, isSelected, onSelect, isInFederation }: Props
                         className={styles.button}
                         onClick={handleLicense}
                         disabled={!canLicense}
-                        title={canLicense ? `License this union (${licenseChance}% chance, -1 Paperwork)` : 'Not enough Paperwork'}
+                        title={canLicense ? `License this union (${licenseChance}% chance, ${formatCost(rules.costs.license)})` : 'Not enough Paperwork'}
                     >
                         📋 License ({licenseChance}%)
                     </button>
@@ -221,7 +241,7 @@ export function UnionCard({ union, isSelected, onSelect, isInFederation }: Props
                             onClick={handleIncubatePaperwork}
                             disabled={!canIncubate}
                             title={canIncubate
-                                ? `Clean the file: +${Math.round(paperworkPreview.licenseChange)}% license, -${Math.round(paperworkPreview.crackChange)}% crack, ${paperworkPreview.loyaltyChange} loyalty`
+                                ? `Clean the file (${formatCost(rules.costs.incubate)}): ${signed(paperworkPreview.licenseChange)}% license, ${signed(paperworkPreview.crackChange)}% crack, ${signed(paperworkPreview.loyaltyChange)} loyalty`
                                 : 'Not enough Patronage'}
                         >
                             📋 Paperwork
@@ -231,7 +251,7 @@ export function UnionCard({ union, isSelected, onSelect, isInFederation }: Props
                             onClick={handleIncubateDiscipline}
                             disabled={!canIncubate}
                             title={canIncubate
-                                ? `Tighten control: ${Math.round(disciplinePreview.licenseChange)}% license, -${Math.round(disciplinePreview.crackChange)}% crack, +${disciplinePreview.loyaltyChange} loyalty`
+                                ? `Tighten control (${formatCost(rules.costs.incubate)}): ${signed(disciplinePreview.licenseChange)}% license, ${signed(disciplinePreview.crackChange)}% crack, ${signed(disciplinePreview.loyaltyChange)} loyalty`
                                 : 'Not enough Patronage'}
                         >
                             ⚙️ Discipline
@@ -240,36 +260,58 @@ export function UnionCard({ union, isSelected, onSelect, isInFederation }: Props
                 )}
             </div>
 
+            {/* Status Resolution */}
+            {!union.isCracked && union.statuses.some(s => rules.statuses[s.tag].resolve) && (
+                <div className={styles.actions}>
+                    {union.statuses.map(status => {
+                        const resolution = rules.statuses[status.tag].resolve;
+                        if (!resolution) return null;
+                        const affordable = canAfford(resources, resolution);
+                        return (
+                            <button
+                                key={status.tag}
+                                className={`${styles.button} ${styles.resolveButton}`}
+                                onClick={(e) => { e.stopPropagation(); resolveStatus(union.id, status.tag); }}
+                                disabled={!affordable}
+                                title={Object.entries(resolution).map(([key, value]) => `${key} ${value}`).join(', ')}
+                            >
+                                🩹 Resolve {STATUS_DEFINITIONS[status.tag].label}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
             {/* Harvest Actions */}
             <div className={styles.harvestActions}>
                 <button
                     className={`${styles.button} ${styles.dissolveButton}`}
                     onClick={handleDissolve}
                     disabled={isInFederation}
-                    title={isInFederation ? 'Cannot dissolve unions in federations' : `Dissolve for ${getDissolveReward(union)} Paperwork`}
+                    title={isInFederation ? 'Cannot dissolve unions in federations' : `Dissolve for ${getDissolveReward(union, rules)} Paperwork`}
                 >
-                    💼 Dissolve (+{getDissolveReward(union)} 📋)
+                    💼 Dissolve (+{getDissolveReward(union, rules)} 📋)
                 </button>
                 <button
                     className={`${styles.button} ${styles.reassignButton}`}
                     onClick={handleReassign}
                     disabled={isInFederation}
-                    title={isInFederation ? 'Cannot reassign unions in federations' : `Reassign for ${getReassignReward(union)} Patronage`}
+                    title={isInFederation ? 'Cannot reassign unions in federations' : `Reassign for ${getReassignReward(union, rules)} Patronage`}
                 >
-                    🤝 Reassign (+{getReassignReward(union)} 🤝)
+                    🤝 Reassign (+{getReassignReward(union, rules)} 🤝)
                 </button>
             </div>
 
             {/* Incubation Preview */}
             {!union.isIncubated && !union.isCracked && canIncubate && (
                 <div className={styles.incubatePreview}>
-                    <span className={styles.previewLabel}>Incubate effects (-2 Patronage):</span>
+                    <span className={styles.previewLabel}>Incubate effects ({formatCost(rules.costs.incubate)}):</span>
                     <div className={styles.previewOptions}>
                         <span className={styles.previewOption}>
-                            📋 License +{Math.round(paperworkPreview.licenseChange)}%, Crack -{Math.round(paperworkPreview.crackChange)}%, Loyalty {paperworkPreview.loyaltyChange}
+                            📋 License {signed(paperworkPreview.licenseChange)}%, Crack {signed(paperworkPreview.crackChange)}%, Loyalty {signed(paperworkPreview.loyaltyChange)}
                         </span>
                         <span className={styles.previewOption}>
-                            ⚙️ License {Math.round(disciplinePreview.licenseChange)}%, Crack -{Math.round(disciplinePreview.crackChange)}%, Loyalty +{disciplinePreview.loyaltyChange}
+                            ⚙️ License {signed(disciplinePreview.licenseChange)}%, Crack {signed(disciplinePreview.crackChange)}%, Loyalty {signed(disciplinePreview.loyaltyChange)}
                         </span>
                     </div>
                 </div>
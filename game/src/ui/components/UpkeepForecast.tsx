@@ -0,0 +1,56 @@
+/**
+ * UpkeepForecast Component
+ *
+ * Itemized preview of what the end of this cycle will cost,
+ * including union maintenance and any shortfall.
+ */
+
+import { useGame } from '../../app/GameProvider';
+import { getUpkeepItems, getUnpaidUnionIds } from '../../engine/effects';
+import styles from './UpkeepForecast.module.css';
+
+const ICONS: Record<string, string> = {
+    paperwork: '📋',
+    patronage: '🤝',
+    legitimacy: '⚖️',
+    auditRisk: '🔍',
+    streetHeat: '🔥',
+};
+
+export function UpkeepForecast() {
+    const { state, showExplainer } = useGame();
+
+    const items = getUpkeepItems(state);
+    const unpaidCount = getUnpaidUnionIds(state).length;
+
+    return (
+        <div className={styles.container}>
+            <span
+                className={styles.title}
+                onClick={() => showExplainer('Maintenance')}
+                style={{ cursor: 'help' }}
+            >
+                End of cycle
+            </span>
+            <ul className={styles.items}>
+                {items.map(item => (
+                    <li key={item.id} className={styles.item}>
+                        <span className={styles.label}>{item.label}</span>
+                        {Object.entries(item.effects)
+                            .filter(([, value]) => value !== 0)
+                            .map(([key, value]) => (
+                                <span key={key} className={styles.effect}>
+                                    {ICONS[key]} {value > 0 ? '+' : ''}{value}
+                                </span>
+                            ))}
+                    </li>
+                ))}
+            </ul>
+            {unpaidCount > 0 && (
+                <span className={styles.shortfall}>
+                    ⚠️ {unpaidCount} union{unpaidCount === 1 ? '' : 's'} will go unpaid
+                </span>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,21 @@
+/**
+ * File helpers for exports and imports
+ *
+ * Runs, replays and saves leave the browser as plain JSON files.
+ */
+
+/** Offer a value to the player as a .json download */
+export function downloadJson(filename: string, data: unknown): void {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/** Read a picked file as JSON */
+export async function readJsonFile(file: File): Promise<unknown> {
+    return JSON.parse(await file.text());
+}
@@ -0,0 +1,34 @@
+/**
+ * Seed links
+ *
+ * A run is shared as a link to the game with `?seed=<code>`; the start
+ * menu picks the code up from the address bar.
+ */
+
+import { encodeSeed } from '../../engine/seedCode';
+
+const SEED_PARAM = 'seed';
+
+/** Seed text from the address bar, if any (not yet validated) */
+export function readSeedParam(): string | null {
+    return new URLSearchParams(window.location.search).get(SEED_PARAM);
+}
+
+/** Link that opens the game with this seed filled in */
+export function getSeedLink(seed: number): string {
+    const url = new URL(window.location.href);
+    url.search = '';
+    url.hash = '';
+    url.searchParams.set(SEED_PARAM, encodeSeed(seed));
+    return url.toString();
+}
+
+/** Copy a seed link to the clipboard; resolves false if the browser refuses */
+export async function copySeedLink(seed: number): Promise<boolean> {
+    try {
+        await navigator.clipboard.writeText(getSeedLink(seed));
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * Campaign Interlude Screen
+ *
+ * Between two elections of a campaign: summarizes the election just won
+ * and briefs the player on the next chapter before its first cycle.
+ */
+
+import { useGame } from '../../app/GameProvider';
+import { getTotalDelegates } from '../../engine/state';
+import { getNextChapter } from '../../engine/campaign';
+import { getCouncilMajority } from '../../engine/council';
+import { CampaignRecord } from '../components/CampaignRecord';
+import styles from './CampaignInterlude.module.css';
+
+export function CampaignInterlude() {
+    const { state, continueCampaign } = useGame();
+    const campaign = state.campaign;
+    const next = campaign && getNextChapter(campaign);
+    if (!campaign || !next) return null;
+
+    const result = campaign.results[campaign.results.length - 1];
+    const federationCount = Object.keys(state.federations).length;
+
+    return (
+        <div className={styles.container}>
+            <div className={styles.content}>
+                <p className={styles.campaignName}>{campaign.name}</p>
+                <h1 className={styles.title}>{result.title.toUpperCase()}: WON</h1>
+                <p className={styles.subtitle}>
+                    {result.seats} seats held, {result.majority} needed. The council is yours, for now.
+                </p>
+
+                <CampaignRecord campaign={campaign} />
+
+                <section className={styles.briefing}>
+                    <h2>
+                        Election {campaign.chapterIndex + 2} of {campaign.chapters.length}: {next.title}
+                    </h2>
+                    <p>{next.briefing}</p>
+                    <div className={styles.stats}>
+                        <div className={styles.stat}>
+                            <span className={styles.statValue}>{getCouncilMajority(next.rules.council)}/{next.rules.council.seats}</span>
+                            <span className={styles.statLabel}>Seats to Win</span>
+                        </div>
+                        <div className={styles.stat}>
+                            <span className={styles.statValue}>{getTotalDelegates(state)}</span>
+                            <span className={styles.statLabel}>Delegates Held</span>
+                        </div>
+                        <div className={styles.stat}>
+                            <span className={styles.statValue}>{federationCount}</span>
+                            <span className={styles.statLabel}>Federations</span>
+                        </div>
+                        <div className={styles.stat}>
+                            <span className={styles.statValue}>{state.scenario?.maxCycles ?? next.rules.maxCycles}</span>
+                            <span className={styles.statLabel}>Cycles</span>
+                        </div>
+                    </div>
+                    {next.ruleNotes.length > 0 && (
+                        <ul className={styles.ruleNotes}>
+                            {next.ruleNotes.map(note => <li key={note}>{note}</li>)}
+                        </ul>
+                    )}
+                </section>
+
+                <p className={styles.note}>
+                    Unions, federations and scandals carry over. Upkeep is paid once more before the first cycle.
+                </p>
+
+                <button className={styles.continueButton} onClick={continueCampaign}>
+                    Begin {next.title}
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -7,11 +7,22 @@
 import { useState } from 'react';
 import { useGame } from '../../app/GameProvider';
 import { getTotalDelegates, getAvailableUnions } from '../../engine/state';
+import { canGoPublic } from '../../engine/evidence';
+import { getElectionMajority } from '../../engine/election';
+import { getCurrentChapter } from '../../engine/campaign';
+import { getRivalDelegates, RIVAL_NAME } from '../../engine/rival';
+import { encodeSeed } from '../../engine/seedCode';
+import { canPay, formatCost } from '../../engine/rules';
+import { copySeedLink } from '../files/seedLink';
 import { ResourceBar } from '../components/ResourceBar';
+import { UpkeepForecast } from '../components/UpkeepForecast';
 import { UnionCard } from '../components/UnionCard';
+import { FederationCard } from '../components/FederationCard';
 import { EventModal } from '../components/EventModal';
 import { TutorialModal } from '../components/TutorialModal';
 import { ExplainerModal } from '../components/ExplainerModal';
+import { RivalPanel } from '../components/RivalPanel';
+import { SectorPanel } from '../components/SectorPanel';
 import styles from './Dashboard.module.css';
 
 export function Dashboard() {
@@ -20,19 +31,24 @@ export function Dashboard() {
         generateUnions,
         createFederation,
         drawRandomEvent,
+        goPublic,
+        showExplainer,
+        canUndo,
+        undo,
+        saveToSlot,
     } = useGame();
 
     const [selectedUnions, setSelectedUnions] = useState<string[]>([]);
+    const [briefingRead, setBriefingRead] = useState(false);
 
     const unions = Object.values(state.unions);
     const federations = Object.values(state.federations);
     const totalDelegates = getTotalDelegates(state);
     const availableUnions = getAvailableUnions(state);
 
-    const canGenerateUnions = state.resources.paperwork >= 1 && !state.unionsGeneratedInCycle;
-    const canCreateFederation = selectedUnions.length >= 2 &&
-        state.resources.paperwork >= 2 &&
-        state.resources.patronage >= 1;
+    const { costs } = state.rules;
+    const canGenerateUnions = canPay(state.resources, costs.generateUnions) && !state.unionsGeneratedInCycle;
+    const canCreateFederation = selectedUnions.length >= 2 && canPay(state.resources, costs.createFederation);
 
     const handleGenerateUnions = () => {
         generateUnions(3);
@@ -54,6 +70,11 @@ export function Dashboard() {
         }
     };
 
+    const handleSave = () => {
+        const name = window.prompt('Save slot name', `${encodeSeed(state.seed)}, cycle ${state.cycle}`);
+        if (name?.trim()) saveToSlot(name.trim());
+    };
+
     const handleAdvanceTurn = () => {
         // Draw an event before advancing
         drawRandomEvent();
@@ -71,12 +92,57 @@ export function Dashboard() {
                 </div>
                 <div className={styles.cycleInfo}>
                     <span className={styles.cycleBadge}>Cycle {state.cycle}/{state.maxCycles}</span>
-                    <span className={styles.delegateCount}>🗳️ {totalDelegates} Delegates</span>
+                    {state.campaign && (
+                        <span className={styles.scenarioBadge} title={state.campaign.name}>
+                            🏛️ Election {state.campaign.chapterIndex + 1}/{state.campaign.chapters.length}:
+                            {' '}{getCurrentChapter(state.campaign).title}
+                        </span>
+                    )}
+                    <span
+                        className={styles.seedBadge}
+                        onClick={() => copySeedLink(state.seed)}
+                        title="Seed code. Click to copy a link to this seed."
+                    >
+                        🎲 {encodeSeed(state.seed)}
+                    </span>
+                    {state.settings.dailyDate && (
+                        <span className={styles.dailyBadge}>📰 Daily {state.settings.dailyDate}</span>
+                    )}
+                    {state.scenario && (
+                        <span className={styles.scenarioBadge} title={state.scenario.description}>
+                            📜 {state.scenario.name}, {state.scenario.date}
+                        </span>
+                    )}
+                    <span className={styles.delegateCount}>
+                        🗳️ {totalDelegates} Delegates
+                        {state.bonusDelegates > 0 && ` (+${state.bonusDelegates} bonus)`}
+                        {' '}· {getElectionMajority(state)} of {state.rules.council.seats} seats needed
+                        {state.rival && ` · Rival ${getRivalDelegates(state.rival)}`}
+                    </span>
+                    {state.evidence > 0 && (
+                        <span
+                            className={styles.evidenceBadge}
+                            onClick={() => showExplainer('Evidence')}
+                            style={{ cursor: 'help' }}
+                        >
+                            📁 {state.evidence}/{state.rules.evidence.required}
+                        </span>
+                    )}
                 </div>
             </header>
 
             {/* Resources */}
             <ResourceBar />
+            <UpkeepForecast />
+
+            {/* Scenario briefing (campaigns show chapter briefings in the interlude instead) */}
+            {state.scenario && state.cycle === 1 && !state.campaign?.chapterIndex && !briefingRead && (
+                <aside className={styles.briefing}>
+                    <h2>{state.scenario.name} · {state.scenario.era}</h2>
+                    <p>{state.scenario.openingText}</p>
+                    <button onClick={() => setBriefingRead(true)}>Understood</button>
+                </aside>
+            )}
 
             {/* Main Content */}
             <main className={styles.main}>
@@ -91,7 +157,7 @@ export function Dashboard() {
                         >
                             {state.unionsGeneratedInCycle
                                 ? "✅ Unions Generated"
-                                : `🥚 Generate Unions (-1 📋)`}
+                                : `🥚 Generate Unions (-${costs.generateUnions.paperwork} 📋)`}
                         </button>
                     </div>
 
@@ -129,6 +195,7 @@ export function Dashboard() {
                                 className={styles.actionButton}
                                 onClick={handleCreateFederation}
                                 disabled={!canCreateFederation}
+                                title={formatCost(costs.createFederation)}
                             >
                                 🏛️ Create Federation ({selectedUnions.length} selected)
                             </button>
@@ -145,7 +212,7 @@ export function Dashboard() {
                                 Clear
                             </button>
                             <span className={styles.hint}>
-                                Need 2+ licensed unions, 2 Paperwork, 1 Patronage
+                                Need 2+ licensed unions ({formatCost(costs.createFederation)}). Or add them to, or split them from, a federation below.
                             </span>
                         </div>
                     )}
@@ -160,22 +227,36 @@ export function Dashboard() {
                     ) : (
                         <div className={styles.federationList}>
                             {federations.map(fed => (
-                                <div key={fed.id} className={styles.federationCard}>
-                                    <div className={styles.fedHeader}>
-                                        <h3>{fed.name}</h3>
-                                        <span className={styles.delegateBadge}>🗳️ {fed.delegates}</span>
-                                    </div>
-                                    <div className={styles.fedMeta}>
-                                        <span className={fed.recognition === 'recognized' ? styles.recognized : styles.unrecognized}>
-                                            {fed.recognition}
-                                        </span>
-                                        <span>{fed.unionIds.length} unions</span>
-                                    </div>
-                                </div>
+                                <FederationCard
+                                    key={fed.id}
+                                    federation={fed}
+                                    selectedUnionIds={selectedUnions}
+                                    onClearSelection={() => setSelectedUnions([])}
+                                />
                             ))}
                         </div>
                     )}
                 </section>
+
+                {/* Sector Economy */}
+                <section className={styles.section}>
+                    <div className={styles.sectionHeader}>
+                        <h2>Sector Economy</h2>
+                        <span className={styles.hint}>Unrest cracks unions; strong employers buy off their officials</span>
+                    </div>
+                    <SectorPanel state={state} />
+                </section>
+
+                {/* Rival Hatchery */}
+                {state.rival && (
+                    <section className={styles.section}>
+                        <div className={styles.sectionHeader}>
+                            <h2>Rival Hatchery</h2>
+                            <span className={styles.hint}>{RIVAL_NAME}</span>
+                        </div>
+                        <RivalPanel rival={state.rival} />
+                    </section>
+                )}
             </main>
 
             {/* Footer Actions */}
@@ -185,12 +266,40 @@ export function Dashboard() {
                     <span>•</span>
                     <span>Total federations: {federations.length}</span>
                 </div>
-                <button
-                    className={styles.advanceButton}
-                    onClick={handleAdvanceTurn}
-                >
-                    Advance to Next Cycle →
-                </button>
+                <div className={styles.footerActions}>
+                    <button
+                        className={styles.undoButton}
+                        onClick={handleSave}
+                        title="Save this run to a named slot. Slots can be exported from the start menu."
+                    >
+                        💾 Save
+                    </button>
+                    {state.settings.allowUndo && (
+                        <button
+                            className={styles.undoButton}
+                            onClick={undo}
+                            disabled={!canUndo}
+                            title="Undo the last action. Dice rolls and the end of a cycle cannot be undone."
+                        >
+                            ↩ Undo
+                        </button>
+                    )}
+                    {canGoPublic(state) && (
+                        <button
+                            className={styles.publicButton}
+                            onClick={goPublic}
+                            title="Release the dossier to the press. This ends the run."
+                        >
+                            📰 Go Public
+                        </button>
+                    )}
+                    <button
+                        className={styles.advanceButton}
+                        onClick={handleAdvanceTurn}
+                    >
+                        Advance to Next Cycle →
+                    </button>
+                </div>
             </footer>
 
             {/* Event Modal */}
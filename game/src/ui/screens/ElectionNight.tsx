@@ -2,77 +2,42 @@
  * Election Night Screen
  * 
  * Displays the election results with delegate reliability rolls.
- * Delegates are rolled based on member union loyalty.
+ * Rolls are made by the engine on entering the election (see engine/election.ts).
+ * With a rival hatchery, its delegates are rolled and shown alongside.
+ * Secured delegates then take their council seats, and the player can
+ * bargain for swing seats before revealing the outcome (see engine/council.ts).
  */
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useGame } from '../../app/GameProvider';
-import { getTotalDelegates, getFederationReliability } from '../../engine/state';
-import { createRNG } from '../../engine/rng';
+import { getTotalDelegates } from '../../engine/state';
+import { getElectionMajority } from '../../engine/election';
+import { getCouncilSeats, getSwingCost, canBargain } from '../../engine/council';
+import { RIVAL_NAME } from '../../engine/rival';
 import styles from './ElectionNight.module.css';
 
-const DELEGATE_THRESHOLD = 6;
-
-type DelegateRoll = {
-    federationId: string;
-    federationName: string;
-    expected: number;
-    secured: number;
-    rolls: boolean[];
-};
-
 export function ElectionNight() {
-    const { state, resolveElection } = useGame();
-    const [delegateRolls, setDelegateRolls] = useState<DelegateRoll[]>([]);
-    const [hasRolled, setHasRolled] = useState(false);
+    const { state, bargainSwingSeat, resolveElection } = useGame();
     const [isRevealing, setIsRevealing] = useState(false);
 
-    const federations = Object.values(state.federations);
+    const result = state.electionResult;
+    const delegateRolls = result?.rolls ?? [];
+    const council = result?.council ?? null;
+    const majority = council?.majority ?? getElectionMajority(state);
+    const bonusDelegates = result?.bonusDelegates ?? state.bonusDelegates;
 
     // Calculate expected delegates (before rolls)
-    const expectedDelegates = getTotalDelegates(state);
+    const expectedDelegates = result?.expectedDelegates ?? getTotalDelegates(state) + bonusDelegates;
 
     // Calculate secured delegates (after rolls)
-    const securedDelegates = delegateRolls.reduce((sum, roll) => sum + roll.secured, 0);
-
-    const willWin = hasRolled ? securedDelegates >= DELEGATE_THRESHOLD : expectedDelegates >= DELEGATE_THRESHOLD;
-
-    // Roll delegates when component mounts
-    useEffect(() => {
-        if (hasRolled) return;
-
-        const rng = createRNG(state.rngCursor + 999); // Offset to avoid collision with other rolls
-        const rolls: DelegateRoll[] = [];
-
-        for (const federation of federations) {
-            if (federation.recognition !== 'recognized') continue;
-
-            const reliability = getFederationReliability(federation, state.unions);
-            const loyaltyPercent = (reliability / 2) * 100; // Convert back to percentage
-
-            // Roll each of the 2 delegates independently
-            const delegateRolls: boolean[] = [];
-            let secured = 0;
+    const securedDelegates = result?.securedDelegates ?? 0;
 
-            for (let i = 0; i < 2; i++) {
-                const roll = rng.nextInt(1, 100);
-                const success = roll <= loyaltyPercent;
-                delegateRolls.push(success);
-                if (success) secured++;
-            }
-
-            rolls.push({
-                federationId: federation.id,
-                federationName: federation.name,
-                expected: 2,
-                secured,
-                rolls: delegateRolls,
-            });
-        }
-
-        setDelegateRolls(rolls);
-        setHasRolled(true);
-    }, [federations, state.unions, state.rngCursor, hasRolled]);
+    const rival = result?.rival ?? null;
+    const seats = council ? getCouncilSeats(council) : { player: 0, rival: 0 };
+    const swingLeft = council ? council.swingSeats - council.bargained : 0;
+    const willWin = result?.won ?? false;
+    const outpolled = rival !== null && seats.player >= majority && seats.player <= seats.rival;
+    const bargainable = canBargain(state);
 
     const handleReveal = () => {
         setIsRevealing(true);
@@ -93,30 +58,101 @@ export function ElectionNight() {
                     {delegateRolls.map(roll => (
                         <div key={roll.federationId} className={styles.federationRoll}>
                             <span className={styles.fedName}>{roll.federationName}</span>
-                            <div className={styles.delegateRolls}>
-                                {roll.rolls.map((success, i) => (
-                                    <span
-                                        key={i}
-                                        className={`${styles.delegateIcon} ${success ? styles.secured : styles.lost}`}
-                                        title={success ? "Delegate secured!" : "Delegate defected!"}
-                                    >
-                                        {success ? '🗳️' : '❌'}
-                                    </span>
-                                ))}
-                            </div>
+                            {roll.cancelled ? (
+                                <span className={styles.cancelledNote}>Delegates cancelled</span>
+                            ) : (
+                                <div className={styles.delegateRolls}>
+                                    {roll.rolls.map((success, i) => (
+                                        <span
+                                            key={i}
+                                            className={`${styles.delegateIcon} ${success ? styles.secured : styles.lost}`}
+                                            title={success ? "Delegate secured!" : "Delegate defected!"}
+                                        >
+                                            {success ? '🗳️' : '❌'}
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
                             <span className={styles.rollResult}>
                                 {roll.secured}/{roll.expected}
                             </span>
                         </div>
                     ))}
+                    {bonusDelegates > 0 && (
+                        <div className={`${styles.federationRoll} ${styles.bonusRoll}`}>
+                            <span className={styles.fedName}>Bonus delegates (election only)</span>
+                            <span className={styles.rollResult}>+{bonusDelegates}</span>
+                        </div>
+                    )}
                 </div>
 
-                <div className={styles.results}>
-                    <div className={styles.statCard}>
-                        <span className={styles.statValue}>{federations.length}</span>
-                        <span className={styles.statLabel}>Federations</span>
+                {rival && (
+                    <div className={`${styles.federationResults} ${styles.rivalResults}`}>
+                        <h2 className={styles.rivalHeading}>{RIVAL_NAME}</h2>
+                        {rival.rolls.length === 0 && (
+                            <p className={styles.cancelledNote}>No recognized rival federations</p>
+                        )}
+                        {rival.rolls.map(roll => (
+                            <div key={roll.federationId} className={styles.federationRoll}>
+                                <span className={styles.fedName}>{roll.federationName}</span>
+                                <div className={styles.delegateRolls}>
+                                    {roll.rolls.map((success, i) => (
+                                        <span
+                                            key={i}
+                                            className={`${styles.delegateIcon} ${success ? styles.secured : styles.lost}`}
+                                            title={success ? "Delegate held for the rival" : "Delegate abstained"}
+                                        >
+                                            {success ? '🗳️' : '❌'}
+                                        </span>
+                                    ))}
+                                </div>
+                                <span className={styles.rollResult}>
+                                    {roll.secured}/{roll.expected}
+                                </span>
+                            </div>
+                        ))}
                     </div>
+                )}
 
+                {council && (
+                    <div className={styles.council}>
+                        <h2 className={styles.councilHeading}>The Labor Council: {council.seats} seats</h2>
+                        <div className={styles.seatRow}>
+                            <span className={styles.fedName}>General seats</span>
+                            <span className={styles.seatSplit}>
+                                You {council.generalSeats.player}
+                                {rival && ` · Rival ${council.generalSeats.rival}`}
+                                {council.generalSeats.vacant > 0 && ` · Vacant ${council.generalSeats.vacant}`}
+                            </span>
+                        </div>
+                        {council.sectorSeats.map((seat, i) => (
+                            <div key={`${seat.sector}-${i}`} className={styles.seatRow}>
+                                <span className={styles.fedName}>{seat.sector} seat</span>
+                                <span className={styles.seatSplit}>
+                                    {seat.holder === 'player' ? 'You' : seat.holder === 'rival' ? 'Rival' : 'Uncommitted'}
+                                </span>
+                            </div>
+                        ))}
+                        <div className={`${styles.seatRow} ${styles.swingRow}`}>
+                            <span className={styles.fedName}>
+                                Swing seats: {swingLeft} uncommitted
+                                {council.bargained > 0 && `, ${council.bargained} won over`}
+                            </span>
+                            {swingLeft > 0 && (
+                                <button
+                                    className={styles.bargainButton}
+                                    onClick={bargainSwingSeat}
+                                    disabled={!bargainable || isRevealing}
+                                    title={`You have ${state.resources.patronage} Patronage`}
+                                >
+                                    Win over a delegate (-{getSwingCost(state)} Patronage)
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                <div className={styles.results}>
                     <div className={styles.statCard}>
                         <span className={styles.statLabel}>Expected</span>
                         <span className={styles.statValue}>{expectedDelegates}</span>
@@ -124,28 +160,40 @@ export function ElectionNight() {
 
                     <div className={`${styles.statCard} ${styles.securedCard}`}>
                         <span className={styles.statLabel}>Secured</span>
-                        <span className={`${styles.statValue} ${securedDelegates >= DELEGATE_THRESHOLD ? styles.winning : styles.losing}`}>
-                            {securedDelegates}
+                        <span className={styles.statValue}>{securedDelegates}</span>
+                    </div>
+
+                    <div className={styles.statCard}>
+                        <span className={styles.statLabel}>Seats</span>
+                        <span className={`${styles.statValue} ${willWin ? styles.winning : styles.losing}`}>
+                            {seats.player}
                         </span>
                     </div>
 
                     <div className={styles.statCard}>
-                        <span className={styles.statValue}>{DELEGATE_THRESHOLD}</span>
-                        <span className={styles.statLabel}>Required</span>
+                        <span className={styles.statValue}>{majority}</span>
+                        <span className={styles.statLabel}>Majority</span>
                     </div>
+
+                    {rival && (
+                        <div className={styles.statCard}>
+                            <span className={styles.statLabel}>Rival Seats</span>
+                            <span className={styles.statValue}>{seats.rival}</span>
+                        </div>
+                    )}
                 </div>
 
                 <div className={styles.progressContainer}>
                     <div className={styles.progressBar}>
-                        {/* Expected (faded) */}
+                        {/* Within reach if every swing seat is won over (faded) */}
                         <div
                             className={styles.progressExpected}
-                            style={{ width: `${Math.min(100, (expectedDelegates / DELEGATE_THRESHOLD) * 100)}%` }}
+                            style={{ width: `${Math.min(100, ((seats.player + swingLeft) / majority) * 100)}%` }}
                         />
-                        {/* Secured (solid) */}
+                        {/* Held (solid) */}
                         <div
                             className={`${styles.progressFill} ${willWin ? styles.winning : styles.losing}`}
-                            style={{ width: `${Math.min(100, (securedDelegates / DELEGATE_THRESHOLD) * 100)}%` }}
+                            style={{ width: `${Math.min(100, (seats.player / majority) * 100)}%` }}
                         />
                         <div
                             className={styles.threshold}
@@ -155,9 +203,9 @@ export function ElectionNight() {
                     <div className={styles.progressLabels}>
                         <span>0</span>
                         <span className={willWin ? styles.winning : styles.losing}>
-                            {willWin ? 'MAJORITY SECURED' : 'BELOW THRESHOLD'}
+                            {willWin ? 'MAJORITY SECURED' : 'SHORT OF A MAJORITY'}
                         </span>
-                        <span>{DELEGATE_THRESHOLD}</span>
+                        <span>{majority}</span>
                     </div>
                 </div>
 
@@ -173,7 +221,11 @@ export function ElectionNight() {
                 <p className={styles.prediction}>
                     {willWin
                         ? "Your federation bloc controls the labor council. The workers will be... represented."
-                        : "Your delegate count falls short. The opposition claims victory. Your hatchery faces scrutiny."
+                        : outpolled
+                            ? "You hold a majority, but the rival bloc holds more seats. The council is theirs."
+                            : bargainable
+                                ? "Your bloc falls short, but the independents are listening. Favours could still tip the council."
+                                : "Your seats fall short. The opposition claims victory. Your hatchery faces scrutiny."
                     }
                 </p>
 
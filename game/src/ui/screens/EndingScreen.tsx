@@ -4,8 +4,16 @@
  * Shows the run outcome and options to continue
  */
 
+import { useState } from 'react';
 import { useGame } from '../../app/GameProvider';
 import { getTotalDelegates } from '../../engine/state';
+import type { LoseCondition, CollapseTrigger } from '../../engine/state';
+import type { ContentBundle } from '../../content/types';
+import { encodeSeed } from '../../engine/seedCode';
+import { getRunScore } from '../../engine/daily';
+import { downloadJson } from '../files/download';
+import { copySeedLink } from '../files/seedLink';
+import { CampaignRecord } from '../components/CampaignRecord';
 import styles from './EndingScreen.module.css';
 
 const ENDINGS = {
@@ -16,6 +24,13 @@ const ENDINGS = {
         flavor: '"We have achieved unprecedented stakeholder alignment. Meeting adjourned."',
         color: '#4ade80',
     },
+    partial: {
+        title: 'DEPOSED',
+        subtitle: 'A Partial Capture',
+        description: 'You held the labor council for a while, and for a while the workers were represented exactly as the Ministry intended. Then your luck ran out before the campaign did, and someone else inherited your federations.',
+        flavor: '"The outgoing leadership leaves behind a proud record of agreements, most of them signed."',
+        color: '#fbbf24',
+    },
     collapse: {
         title: 'COLLAPSED',
         subtitle: 'The Hatchery Falls',
@@ -26,17 +41,73 @@ const ENDINGS = {
     whistleblower: {
         title: 'EXPOSED',
         subtitle: 'The Truth Emerges',
-        description: 'You chose transparency. The full scope of federation manipulation has been documented and released. Reform becomes possible.',
+        description: 'You chose transparency. The full scope of federation manipulation has been documented and released. Reform becomes possible. The full archive is now open.',
         flavor: '"Sometimes the system must be revealed before it can be changed."',
         color: '#60a5fa',
     },
 };
 
+/** Epilogues for runs ended by a risk meter, keyed by which meter broke */
+const COLLAPSE_EPILOGUES: Record<LoseCondition, typeof ENDINGS.collapse> = {
+    legitimacy: {
+        title: 'DISOWNED',
+        subtitle: 'Nobody Believes You Anymore',
+        description: 'Your federations still exist on paper, but no one will sign anything with your letterhead on it. Patrons stop returning calls. The workers you claimed to represent were never listening in the first place.',
+        flavor: '"The council thanks the outgoing leadership for its service and has changed the locks."',
+        color: '#a78bfa',
+    },
+    audit: {
+        title: 'PURGED',
+        subtitle: 'The Ministry Has Reviewed Your File',
+        description: 'The auditors counted the members. Then they counted again. Your federations are struck from the registry, your delegates annulled, and your office reassigned to a more discreet operator.',
+        flavor: '"Irregularities have been identified and corrected. No further comment at this time."',
+        color: '#fbbf24',
+    },
+    street: {
+        title: 'SHUT DOWN',
+        subtitle: 'The Workers Came to the Office',
+        description: 'The people your unions were supposed to represent finally showed up, all at once. The office is closed "for renovations." The files did not survive the afternoon.',
+        flavor: '"We were always open to dialogue. We simply did not expect so much of it."',
+        color: '#f87171',
+    },
+};
+
+const ACTION_LABELS: Record<string, string> = {
+    UNION_LICENSE: 'a rejected license application',
+    UNION_INCUBATE: 'an incubation drive',
+    UNION_RESOLVE_STATUS: 'settling a troubled union',
+    FEDERATION_CREATE: 'registering a new federation',
+    FEDERATION_APPLY_RECOGNITION: 'a rejected recognition application',
+    FEDERATION_ADD_UNION: 'adding a union to a federation',
+    FEDERATION_EXPEL_UNION: 'expelling a federation member',
+    FEDERATION_DISSOLVE: 'dissolving a federation',
+    FEDERATION_MERGE: 'merging two federations',
+    FEDERATION_SPLIT: 'splitting a federation',
+};
+
+function describeTrigger(trigger: CollapseTrigger, content: ContentBundle | null): string {
+    switch (trigger.kind) {
+        case 'upkeep':
+            return 'end-of-cycle upkeep';
+        case 'action':
+            return ACTION_LABELS[trigger.action] ?? trigger.action;
+        case 'event': {
+            const event = content?.events.find(e => e.id === trigger.eventId);
+            const choice = event?.choices.find(c => c.id === trigger.choiceId);
+            if (!event) return trigger.eventId;
+            return choice ? `"${event.headline}" (${choice.label})` : `"${event.headline}"`;
+        }
+    }
+}
+
 export function EndingScreen() {
-    const { state, resetGame } = useGame();
+    const { state, content, resetGame, exportReplay } = useGame();
+    const [linkCopied, setLinkCopied] = useState(false);
 
     const ending = state.ending || 'collapse';
-    const endingData = ENDINGS[ending];
+    const endingData = ending === 'collapse' && state.collapse
+        ? COLLAPSE_EPILOGUES[state.collapse.cause]
+        : ENDINGS[ending];
     const totalDelegates = getTotalDelegates(state);
     const federationCount = Object.keys(state.federations).length;
     const cyclesCompleted = state.cycle;
@@ -53,6 +124,14 @@ export function EndingScreen() {
                     {endingData.flavor}
                 </blockquote>
 
+                {state.collapse && (
+                    <p className={styles.cause}>
+                        Cycle {state.collapse.cycle}: brought down by {describeTrigger(state.collapse.trigger, content)}.
+                    </p>
+                )}
+
+                {state.campaign && <CampaignRecord campaign={state.campaign} />}
+
                 <div className={styles.stats}>
                     <div className={styles.stat}>
                         <span className={styles.statValue}>{cyclesCompleted}</span>
@@ -62,16 +141,40 @@ export function EndingScreen() {
                         <span className={styles.statValue}>{federationCount}</span>
                         <span className={styles.statLabel}>Federations Created</span>
                     </div>
-                    <div className={styles.stat}>
-                        <span className={styles.statValue}>{totalDelegates}</span>
-                        <span className={styles.statLabel}>Final Delegates</span>
-                    </div>
+                    {ending === 'whistleblower' ? (
+                        <div className={styles.stat}>
+                            <span className={styles.statValue}>{state.evidence}</span>
+                            <span className={styles.statLabel}>Documents Released</span>
+                        </div>
+                    ) : (
+                        <div className={styles.stat}>
+                            <span className={styles.statValue}>{totalDelegates}</span>
+                            <span className={styles.statLabel}>Final Delegates</span>
+                        </div>
+                    )}
                     <div className={styles.stat}>
                         <span className={styles.statValue}>{state.unlockedFootnotes.length}</span>
                         <span className={styles.statLabel}>Footnotes Unlocked</span>
                     </div>
                 </div>
 
+                {state.settings.dailyDate && (
+                    <p className={styles.dailyScore}>
+                        📰 Daily Dispatch {state.settings.dailyDate}: {getRunScore(state)} points
+                    </p>
+                )}
+
+                <p className={styles.seed}>
+                    Seed <code>{encodeSeed(state.seed)}</code>
+                    <button
+                        className={styles.linkButton}
+                        onClick={async () => setLinkCopied(await copySeedLink(state.seed))}
+                        title="Copy a link that starts a run on this seed"
+                    >
+                        {linkCopied ? 'Link copied' : 'Copy link'}
+                    </button>
+                </p>
+
                 <div className={styles.actions}>
                     <button
                         className={styles.primaryButton}
@@ -79,6 +182,13 @@ export function EndingScreen() {
                     >
                         Try Again
                     </button>
+                    <button
+                        className={styles.secondaryButton}
+                        onClick={() => downloadJson(`hatchery-replay-${state.seed}.json`, exportReplay())}
+                        title="Download every action of this run to replay it or attach to a bug report"
+                    >
+                        Export Replay
+                    </button>
                     {state.unlockedFootnotes.length > 0 && (
                         <button className={styles.secondaryButton}>
                             View Museum ({state.unlockedFootnotes.length})
@@ -0,0 +1,138 @@
+/**
+ * Replay Viewer Screen
+ *
+ * Rebuilds a recorded run step by step (see engine/replay.ts) and lets
+ * the player scrub through it: every action, and the state it produced.
+ */
+
+import { useMemo, useState } from 'react';
+import { useGame } from '../../app/GameProvider';
+import { CONTENT_VERSION } from '../../content/loadContent';
+import { replayStates, describeAction } from '../../engine/replay';
+import { encodeSeed } from '../../engine/seedCode';
+import type { Resources } from '../../engine/state';
+import styles from './ReplayViewer.module.css';
+
+const RESOURCE_LABELS: Record<keyof Resources, string> = {
+    paperwork: '📋 Paperwork',
+    patronage: '🤝 Patronage',
+    legitimacy: '⚖️ Legitimacy',
+    auditRisk: '🔍 Audit Risk',
+    streetHeat: '🔥 Street Heat',
+};
+
+export function ReplayViewer() {
+    const { replay, closeReplay } = useGame();
+    const states = useMemo(() => (replay ? replayStates(replay) : []), [replay]);
+    const [step, setStep] = useState(states.length - 1);
+
+    if (!replay) return null;
+
+    const current = states[step];
+    const previous = states[Math.max(0, step - 1)];
+    const action = step > 0 ? replay.actions[step - 1] : null;
+    const unions = Object.values(current.unions);
+    const federations = Object.values(current.federations);
+
+    return (
+        <div className={styles.container}>
+            <header className={styles.header}>
+                <div>
+                    <h1>REPLAY</h1>
+                    <span className={styles.meta}>
+                        Seed {encodeSeed(replay.seed)} · content {replay.contentVersion} · {replay.actions.length} actions
+                    </span>
+                </div>
+                <button className={styles.closeButton} onClick={closeReplay}>
+                    Close
+                </button>
+            </header>
+
+            {replay.contentVersion !== CONTENT_VERSION && (
+                <p className={styles.warning}>
+                    ⚠️ Recorded against content {replay.contentVersion}; this build ships {CONTENT_VERSION}.
+                    Event text may differ, outcomes will not.
+                </p>
+            )}
+
+            {/* Scrubber */}
+            <div className={styles.scrubber}>
+                <button onClick={() => setStep(s => Math.max(0, s - 1))} disabled={step === 0}>
+                    ◀
+                </button>
+                <input
+                    type="range"
+                    min={0}
+                    max={states.length - 1}
+                    value={step}
+                    onChange={(e) => setStep(Number(e.target.value))}
+                    aria-label="Replay step"
+                />
+                <button onClick={() => setStep(s => Math.min(states.length - 1, s + 1))} disabled={step === states.length - 1}>
+                    ▶
+                </button>
+                <span className={styles.stepLabel}>
+                    {step}/{states.length - 1}
+                </span>
+            </div>
+
+            <div className={styles.action}>
+                {action ? describeAction(action) : 'Start'}
+                <span className={styles.phase}>
+                    Cycle {current.cycle}/{current.maxCycles} · {current.phase}
+                    {current.ending && ` · ending: ${current.ending}`}
+                    {current.collapse && ` (${current.collapse.cause})`}
+                </span>
+            </div>
+
+            {/* Resources with the change made by this step */}
+            <div className={styles.resources}>
+                {(Object.keys(RESOURCE_LABELS) as (keyof Resources)[]).map(key => {
+                    const delta = current.resources[key] - previous.resources[key];
+                    return (
+                        <div key={key} className={styles.resource}>
+                            <span className={styles.resourceLabel}>{RESOURCE_LABELS[key]}</span>
+                            <span className={styles.resourceValue}>{current.resources[key]}</span>
+                            {delta !== 0 && (
+                                <span className={delta > 0 ? styles.up : styles.down}>
+                                    {delta > 0 ? '+' : ''}{delta}
+                                </span>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className={styles.columns}>
+                <section>
+                    <h2>Unions ({unions.length})</h2>
+                    <ul className={styles.list}>
+                        {unions.map(union => (
+                            <li key={union.id} className={union.isCracked ? styles.cracked : undefined}>
+                                <span>{union.name}</span>
+                                <span className={styles.stats}>
+                                    P{union.plausibility} L{union.loyalty} I{union.integrity}
+                                    {union.isLicensed && ' · licensed'}
+                                    {union.statuses.map(s => ` · ${s.tag}`).join('')}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+                <section>
+                    <h2>Federations ({federations.length})</h2>
+                    <ul className={styles.list}>
+                        {federations.map(federation => (
+                            <li key={federation.id}>
+                                <span>{federation.name}</span>
+                                <span className={styles.stats}>
+                                    {federation.unionIds.length} unions · {federation.recognition} · 👁️ {federation.visibility}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            </div>
+        </div>
+    );
+}
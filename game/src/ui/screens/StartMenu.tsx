@@ -6,25 +6,67 @@
 
 import { useState } from 'react';
 import { useGame } from '../../app/GameProvider';
+import { parseReplay } from '../../engine/replay';
+import { parseSeedInput } from '../../engine/seedCode';
+import { DEFAULT_SETTINGS } from '../../engine/state';
+import { getCouncilMajority } from '../../engine/council';
+import { getRulePreset } from '../../content/loadContent';
+import { resolveCampaign } from '../../content/schemas';
+import { readJsonFile } from '../files/download';
+import { readSeedParam } from '../files/seedLink';
+import { SaveSlotList } from '../components/SaveSlotList';
+import { DailyDispatch } from '../components/DailyDispatch';
 import styles from './StartMenu.module.css';
 
 export function StartMenu() {
-    const { startGame, isLoading, error } = useGame();
-    const [seed, setSeed] = useState('');
+    const { content, startGame, continueGame, savedRun, saveWarning, openReplay, isLoading, error } = useGame();
+    const [seed, setSeed] = useState(() => readSeedParam() ?? '');
+    const [seedError, setSeedError] = useState<string | null>(null);
+    const [replayError, setReplayError] = useState<string | null>(null);
+    const [allowUndo, setAllowUndo] = useState(false);
+    const [rival, setRival] = useState(false);
+    const [presetId, setPresetId] = useState<string | null>(null);
+    const preset = content && getRulePreset(content.rules, presetId);
+    const [scenarioId, setScenarioId] = useState('');
+    const scenario = content?.scenarios.find(s => s.id === scenarioId) ?? null;
+    const [campaignId, setCampaignId] = useState('');
+    const campaign = content?.campaigns.find(c => c.id === campaignId) ?? null;
+    /** Campaign chapters resolved against the chosen preset (validated on load) */
+    const resolvedCampaign = campaign && preset ? resolveCampaign(campaign, preset) : null;
+
+    /** Seed from the input: undefined for a random run, null if unreadable */
+    const readSeed = (): number | undefined | null => {
+        if (seed.trim() === '') return undefined;
+        const seedNumber = parseSeedInput(seed);
+        setSeedError(seedNumber === null ? 'Enter a seed code like UNITED-POSTAL-UNION-12, or a number' : null);
+        return seedNumber;
+    };
 
     const handleStart = () => {
         console.log('=== [StartMenu] Start New Run button clicked ===');
         console.log('[StartMenu] Raw seed value:', seed);
-        const seedNumber = seed ? parseInt(seed, 10) : undefined;
+        const seedNumber = readSeed();
         console.log('[StartMenu] Parsed seed number:', seedNumber);
+        if (seedNumber === null) return;
         console.log('[StartMenu] Calling startGame function...');
-        startGame(seedNumber, false);
+        startGame(seedNumber, false, { ...DEFAULT_SETTINGS, allowUndo, rival }, preset ?? undefined, scenario, resolvedCampaign);
         console.log('[StartMenu] startGame function called');
     };
 
     const handleStartWithTips = () => {
-        const seedNumber = seed ? parseInt(seed, 10) : undefined;
-        startGame(seedNumber, true);
+        const seedNumber = readSeed();
+        if (seedNumber === null) return;
+        startGame(seedNumber, true, { ...DEFAULT_SETTINGS, allowUndo, rival }, preset ?? undefined, scenario, resolvedCampaign);
+    };
+
+    const handleReplayFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            openReplay(parseReplay(await readJsonFile(file)));
+            setReplayError(null);
+        } catch (err) {
+            setReplayError(err instanceof Error ? err.message : 'Could not read replay file');
+        }
     };
 
     if (isLoading) {
@@ -70,9 +112,22 @@ export function StartMenu() {
                     </p>
                 </div>
 
+                {saveWarning && (
+                    <p className={styles.saveWarning}>⚠️ {saveWarning}</p>
+                )}
+
                 <div className={styles.controls}>
+                    {savedRun && (
+                        <button
+                            className={styles.startButton}
+                            onClick={continueGame}
+                        >
+                            Continue Run (Cycle {savedRun.cycle}/{savedRun.maxCycles})
+                        </button>
+                    )}
+
                     <button
-                        className={styles.startButton}
+                        className={savedRun ? `${styles.startButton} ${styles.tipsButton}` : styles.startButton}
                         onClick={handleStart}
                     >
                         Start New Run
@@ -85,16 +140,106 @@ export function StartMenu() {
                         Start with Tips
                     </button>
 
+                    <DailyDispatch />
+
                     <div className={styles.seedInput}>
                         <label htmlFor="seed">Seed (optional)</label>
                         <input
                             id="seed"
                             type="text"
-                            placeholder="Enter seed for reproducible run"
+                            placeholder="Seed code or number"
                             value={seed}
                             onChange={(e) => setSeed(e.target.value)}
                         />
+                        {seedError && <span className={styles.inputError}>{seedError}</span>}
+                    </div>
+
+                    <fieldset className={styles.settings}>
+                        <legend>Scenario</legend>
+                        <select
+                            value={scenarioId}
+                            onChange={(e) => setScenarioId(e.target.value)}
+                            aria-label="Scenario"
+                        >
+                            <option value="">Standard deck</option>
+                            {content?.scenarios.map(option => (
+                                <option key={option.id} value={option.id}>{option.name} ({option.date})</option>
+                            ))}
+                        </select>
+                        <span className={styles.presetDescription}>
+                            {scenario
+                                ? `${scenario.era}. ${scenario.description}`
+                                : 'Every event in the deck, at its usual odds.'}
+                        </span>
+                    </fieldset>
+
+                    <fieldset className={styles.settings}>
+                        <legend>Campaign</legend>
+                        <select
+                            value={campaignId}
+                            onChange={(e) => setCampaignId(e.target.value)}
+                            aria-label="Campaign"
+                        >
+                            <option value="">Single election</option>
+                            {content?.campaigns.map(option => (
+                                <option key={option.id} value={option.id}>
+                                    {option.name} ({option.chapters.length} elections)
+                                </option>
+                            ))}
+                        </select>
+                        <span className={styles.presetDescription}>
+                            {campaign
+                                ? campaign.description
+                                : 'One block of cycles, one election.'}
+                        </span>
+                    </fieldset>
+
+                    <fieldset className={styles.settings}>
+                        <legend>Difficulty</legend>
+                        <select
+                            value={preset?.id}
+                            onChange={(e) => setPresetId(e.target.value)}
+                            aria-label="Difficulty preset"
+                        >
+                            {content?.rules.presets.map(option => (
+                                <option key={option.id} value={option.id}>{option.label}</option>
+                            ))}
+                        </select>
+                        {preset && (
+                            <span className={styles.presetDescription}>
+                                {preset.description} {getCouncilMajority((resolvedCampaign?.chapters[0].rules ?? preset).council)} council seats to win{resolvedCampaign && ' the first election'}.
+                            </span>
+                        )}
+                        <label>
+                            <input
+                                type="checkbox"
+                                checked={allowUndo}
+                                onChange={(e) => setAllowUndo(e.target.checked)}
+                            />
+                            Allow undo within a cycle (rolls stay final)
+                        </label>
+                        <label>
+                            <input
+                                type="checkbox"
+                                checked={rival}
+                                onChange={(e) => setRival(e.target.checked)}
+                            />
+                            Rival hatchery competes for delegates
+                        </label>
+                    </fieldset>
+
+                    <div className={styles.seedInput}>
+                        <label htmlFor="replay">Watch a replay</label>
+                        <input
+                            id="replay"
+                            type="file"
+                            accept="application/json,.json"
+                            onChange={(e) => handleReplayFile(e.target.files?.[0])}
+                        />
+                        {replayError && <span className={styles.inputError}>{replayError}</span>}
                     </div>
+
+                    <SaveSlotList />
                 </div>
 
                 <footer className={styles.footer}>
@@ -0,0 +1,4 @@
+/// <reference types="vite/client" />
+
+/** App version from package.json, injected by vite.config.ts */
+declare const __APP_VERSION__: string;